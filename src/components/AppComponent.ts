@@ -2,10 +2,44 @@
 import { BaseComponent } from "./BaseComponent.ts";
 import { FormComponent } from "./FormComponent.ts";
 import { TableComponent } from "./TableComponent.ts";
+import { ImportComponent } from "./ImportComponent.ts";
+import { ExportComponent } from "./ExportComponent.ts";
+import { HistoryComponent } from "./HistoryComponent.ts";
+import { RecordDetailsComponent } from "./RecordDetailsComponent.ts";
+import { TrashComponent, getTrashKey } from "./TrashComponent.ts";
+import { DuplicatesComponent } from "./DuplicatesComponent.ts";
+import { BulkUpdateComponent } from "./BulkUpdateComponent.ts";
+import { ValidationSettingsComponent } from "./ValidationSettingsComponent.ts";
 import { EventEmitter } from "./EventListener.ts";
+import { FocusTrap } from "./FocusTrap.ts";
 import { AppStateManager } from "./StateManager.ts";
-import type { FormData } from "./Interfaces.ts";
+import { getLocationProvider } from "./LocationProviders.ts";
+import type {
+  AppEvents,
+  Command,
+  DeletedRecord,
+  FormData,
+  LocationProvider,
+  RecordValues,
+  RuleOverrides,
+} from "./Interfaces.ts";
 import { Notification } from "./Notification.ts";
+import {
+  CommandHistory,
+  SettingCommand,
+  StateSnapshotCommand,
+} from "./CommandHistory.ts";
+import { applyRevision, getRecordValues } from "./revisions.ts";
+import { setRuleOverrides } from "./validation.ts";
+import {
+  LOCALES,
+  detectLocale,
+  getLocale,
+  isLocale,
+  setLocale,
+  t,
+  type Locale,
+} from "./i18n.ts";
 
 /**
  * Represents the main application component.
@@ -15,9 +49,20 @@ import { Notification } from "./Notification.ts";
 export class AppComponent extends BaseComponent {
   private formComponent: FormComponent | null = null;
   private tableComponent: TableComponent | null = null;
-  private eventEmitter: EventEmitter;
+  private importComponent: ImportComponent | null = null;
+  private exportComponent: ExportComponent | null = null;
+  private historyComponent: HistoryComponent | null = null;
+  private recordDetailsComponent: RecordDetailsComponent | null = null;
+  private trashComponent: TrashComponent | null = null;
+  private duplicatesComponent: DuplicatesComponent | null = null;
+  private bulkUpdateComponent: BulkUpdateComponent | null = null;
+  private validationSettingsComponent: ValidationSettingsComponent | null =
+    null;
+  private eventEmitter: EventEmitter<AppEvents>;
   private stateManager: AppStateManager;
-  private dataToBeRestore: any;
+  private history = new CommandHistory();
+  private deleteModalTrap: FocusTrap | null = null;
+  private locationProvider: LocationProvider = getLocationProvider();
 
   /**
    * Creates an instance of the AppComponent.
@@ -26,11 +71,14 @@ export class AppComponent extends BaseComponent {
 
   constructor(elementId: string) {
     super(elementId);
-    this.eventEmitter = new EventEmitter();
+    this.eventEmitter = new EventEmitter<AppEvents>();
     this.stateManager = AppStateManager.getInstance();
+    setRuleOverrides(this.stateManager.getValidationRuleOverrides());
+    this.applyLanguage(this.stateManager.getLanguage() ?? detectLocale());
     this.render();
     this.initializeComponents();
     this.addEventListeners();
+    this.reportLoadErrors();
   }
 
   /**
@@ -64,7 +112,7 @@ export class AppComponent extends BaseComponent {
         .modal {
           display: none;
           position: fixed;
-          z-index: 1;
+          z-index: 1000;
           left: 0;
           top: 0;
           width: 100%;
@@ -91,6 +139,20 @@ export class AppComponent extends BaseComponent {
         button:hover {
           background-color: #e0e0e0;
         }
+        button:focus-visible,
+        input:focus-visible,
+        select:focus-visible {
+          outline: 3px solid #0062cc;
+          outline-offset: 2px;
+        }
+        .visually-hidden {
+          position: absolute;
+          width: 1px;
+          height: 1px;
+          overflow: hidden;
+          clip: rect(0 0 0 0);
+          white-space: nowrap;
+        }
         input[type="text"] {
           width: 100%;
           padding: 10px;
@@ -98,6 +160,27 @@ export class AppComponent extends BaseComponent {
           border: 1px solid #ddd;
           border-radius: 4px;
         }
+        .app-toolbar {
+          display: flex;
+          justify-content: flex-end;
+          gap: 10px;
+          max-width: 1200px;
+          margin: 0 auto;
+          padding: 20px 20px 0;
+        }
+        .app-toolbar .language-switcher {
+          display: flex;
+          align-items: center;
+          gap: 5px;
+          margin-right: auto;
+        }
+        .app-toolbar select {
+          padding: 6px;
+        }
+        .app-toolbar button:disabled {
+          cursor: not-allowed;
+          opacity: 0.5;
+        }
         @media (min-width: 768px) {
           .container {
             flex-direction: row;
@@ -112,39 +195,138 @@ export class AppComponent extends BaseComponent {
           }
         }
       </style>
+      <div id="appToolbar" class="app-toolbar"></div>
       <div class="container">
         <div id="formContainer" class="app-form-container"></div>
         <div id="tableContainer" class="app-table-container"></div>
       </div>
-      <div id="restoreModal" class="modal">
-        <div class="modal-content">
-          <h2>Restore Data</h2>
-          <p>Choose a submission to restore:</p>
-          <div id="restoreOptions"></div>
-          <button id="confirmRestore">Confirm</button>
-          <button id="cancelRestore">Cancel</button>
-        </div>
-      </div>
-      <div id="deleteModal" class="modal">
-        <div class="modal-content">
-          <h2>Confirm Delete</h2>
-          <p>Are you sure you want to delete this item? Type "delete" to confirm.</p>
-          <input type="text" id="deleteConfirmInput" />
-          <button id="confirmDelete">Confirm</button>
-          <button id="cancelDelete">Cancel</button>
-        </div>
+      <div id="importContainer"></div>
+      <div id="exportContainer"></div>
+      <div id="recordDetailsContainer"></div>
+      <div id="historyContainer"></div>
+      <div id="trashContainer"></div>
+      <div id="duplicatesContainer"></div>
+      <div id="bulkUpdateContainer"></div>
+      <div id="validationSettingsContainer"></div>
+      <div id="deleteModal" class="modal"></div>
+    `;
+    this.renderToolbar();
+    this.renderDeleteModal();
+  }
+
+  /**
+   * Renders the toolbar with the language switcher, the validation
+   * settings button and the undo and redo buttons.
+   */
+
+  private renderToolbar(): void {
+    const toolbar = document.getElementById("appToolbar") as HTMLElement;
+    const languageOptions = (Object.keys(LOCALES) as Locale[])
+      .map(
+        (locale) =>
+          `<option value="${locale}" lang="${locale}" ${locale === getLocale() ? "selected" : ""}>${LOCALES[locale].name}</option>`
+      )
+      .join("");
+
+    toolbar.innerHTML = `
+      <label class="language-switcher">
+        ${t("app.language")}
+        <select id="languageSelect">${languageOptions}</select>
+      </label>
+      <button type="button" id="validationSettingsButton">${t("app.validationRules")}</button>
+      <button type="button" id="undoButton" disabled>${t("app.undo")}</button>
+      <button type="button" id="redoButton" disabled>${t("app.redo")}</button>
+    `;
+    this.updateHistoryButtons();
+  }
+
+  /**
+   * Renders the contents of the delete confirmation modal.
+   */
+
+  private renderDeleteModal(): void {
+    const deleteModal = document.getElementById("deleteModal") as HTMLElement;
+    deleteModal.innerHTML = `
+      <div class="modal-content" role="dialog" aria-modal="true" aria-labelledby="deleteModalTitle" aria-describedby="deleteModalMessage">
+        <h2 id="deleteModalTitle">${t("delete.title")}</h2>
+        <p id="deleteModalMessage">${t("delete.typeToConfirm", { word: t("delete.word") })}</p>
+        <input type="text" id="deleteConfirmInput" aria-labelledby="deleteModalMessage" />
+        <button id="confirmDelete">${t("delete.confirm")}</button>
+        <button id="cancelDelete">${t("common.cancel")}</button>
       </div>
     `;
   }
 
+  /**
+   * Shows messages in a language and formats dates and numbers for it.
+   * @param {Locale} locale - The language.
+   */
+
+  private applyLanguage(locale: Locale): void {
+    setLocale(locale);
+    document.documentElement.lang = locale;
+    document.title = t("app.title");
+  }
+
+  /**
+   * Switches the interface to another language and remembers the choice.
+   * The form keeps the values entered so far.
+   * @param {Locale} locale - The new language.
+   */
+
+  private changeLanguage(locale: Locale): void {
+    this.stateManager.setLanguage(locale);
+    this.applyLanguage(locale);
+    this.renderToolbar();
+    this.renderDeleteModal();
+    this.formComponent?.refresh();
+    this.refreshViews();
+  }
+
   /**
    * Initializes the child components (form and table).
    */
 
   private initializeComponents(): void {
-    this.formComponent = new FormComponent("formContainer", this.eventEmitter);
+    this.formComponent = new FormComponent(
+      "formContainer",
+      this.eventEmitter,
+      this.locationProvider
+    );
     this.tableComponent = new TableComponent(
       "tableContainer",
+      this.eventEmitter,
+      this.locationProvider
+    );
+    this.importComponent = new ImportComponent(
+      "importContainer",
+      this.eventEmitter,
+      this.locationProvider
+    );
+    this.exportComponent = new ExportComponent("exportContainer");
+    this.historyComponent = new HistoryComponent(
+      "historyContainer",
+      this.eventEmitter
+    );
+    this.recordDetailsComponent = new RecordDetailsComponent(
+      "recordDetailsContainer",
+      this.eventEmitter
+    );
+    this.trashComponent = new TrashComponent(
+      "trashContainer",
+      this.eventEmitter
+    );
+    this.duplicatesComponent = new DuplicatesComponent(
+      "duplicatesContainer",
+      this.eventEmitter
+    );
+    this.bulkUpdateComponent = new BulkUpdateComponent(
+      "bulkUpdateContainer",
+      this.eventEmitter,
+      this.locationProvider
+    );
+    this.validationSettingsComponent = new ValidationSettingsComponent(
+      "validationSettingsContainer",
       this.eventEmitter
     );
 
@@ -159,92 +341,444 @@ export class AppComponent extends BaseComponent {
   private addEventListeners(): void {
     this.eventEmitter.on("formSubmit", (data: FormData) => this.addData(data));
     this.eventEmitter.on("editItem", (id: string) => this.editItem(id));
+    this.eventEmitter.on("editItemInForm", ({ id, values, fields }) =>
+      this.editItem(id, values, fields)
+    );
     this.eventEmitter.on("updateFormData", (data: FormData) =>
       this.updateData(data)
     );
+    this.eventEmitter.on("showBulkUpdate", (ids: string[]) =>
+      this.bulkUpdateComponent?.open(
+        this.stateManager.getData().filter((item) => ids.includes(item.id))
+      )
+    );
+    this.eventEmitter.on("updateRecords", (updates) =>
+      this.updateRecords(updates)
+    );
     this.eventEmitter.on("showDeleteConfirmation", (id: string) =>
       this.showDeleteConfirmation(id)
     );
-    this.eventEmitter.on("showRestoreModal", () => this.showRestoreModal());
+    this.eventEmitter.on("showTrash", () => this.showTrash());
+    this.eventEmitter.on("showImportModal", () =>
+      this.importComponent?.open()
+    );
+    this.eventEmitter.on("importData", (records: FormData[]) =>
+      this.importData(records)
+    );
+    this.eventEmitter.on("showExportModal", () => this.showExportModal());
+    this.eventEmitter.on("showRecordDetails", (id: string) =>
+      this.showRecordDetails(id)
+    );
+    this.eventEmitter.on("showHistory", (id: string) => this.showHistory(id));
+    this.eventEmitter.on("showDuplicates", () =>
+      this.duplicatesComponent?.open(this.stateManager.getData())
+    );
+    this.eventEmitter.on("mergeRecords", ({ survivorId, discardedIds, values }) =>
+      this.mergeRecords(survivorId, discardedIds, values)
+    );
+    this.eventEmitter.on("revertRecord", ({ id, values }) =>
+      this.revertRecord(id, values)
+    );
 
     // Add listener for the new delete event
     this.eventEmitter.on("deleteData", (id: string) =>
       this.handleDeleteData(id)
     );
-    this.eventEmitter.on("restoreDeleteData", (id: string) =>
-      this.handleRestoreDeleteData(id)
+    this.eventEmitter.on("deleteRecords", (ids: string[]) =>
+      this.deleteRecords(ids)
+    );
+    this.eventEmitter.on("restoreDeleteData", (keys: string[]) =>
+      this.handleRestoreDeleteData(keys)
+    );
+    this.eventEmitter.on("purgeDeletedData", (keys: string[]) =>
+      this.purgeDeletedData(keys)
+    );
+    this.eventEmitter.on("emptyTrash", () => this.emptyTrash());
+    this.eventEmitter.on("setTrashRetention", (days: number | null) =>
+      this.setTrashRetention(days)
+    );
+    this.eventEmitter.on("saveValidationRules", (overrides: RuleOverrides) =>
+      this.saveValidationRules(overrides)
     );
 
-    const confirmRestoreButton = document.getElementById(
-      "confirmRestore"
-    ) as HTMLButtonElement;
-    const cancelRestoreButton = document.getElementById(
-      "cancelRestore"
-    ) as HTMLButtonElement;
+    // The toolbar and the delete modal are re-rendered when the language
+    // changes, so their listeners are delegated from the host elements.
+    const deleteModal = document.getElementById("deleteModal") as HTMLElement;
+    deleteModal.addEventListener("click", (e) => {
+      const target = e.target as HTMLElement;
+      if (target.id === "confirmDelete") {
+        this.confirmDelete();
+      } else if (target.id === "cancelDelete") {
+        this.cancelDelete();
+      }
+    });
+    deleteModal.addEventListener("keydown", (e) => {
+      if (e.key === "Enter" && (e.target as HTMLElement).id === "deleteConfirmInput") {
+        e.preventDefault();
+        this.confirmDelete();
+      }
+    });
+    this.deleteModalTrap = new FocusTrap(deleteModal, () => this.cancelDelete());
 
-    confirmRestoreButton.addEventListener("click", () => this.confirmRestore());
-    cancelRestoreButton.addEventListener("click", () => this.cancelRestore());
+    const toolbar = document.getElementById("appToolbar") as HTMLElement;
+    toolbar.addEventListener("click", (e) => {
+      const target = e.target as HTMLElement;
+      if (target.id === "validationSettingsButton") {
+        this.validationSettingsComponent?.open(
+          this.stateManager.getValidationRuleOverrides()
+        );
+      } else if (target.id === "undoButton") {
+        this.undo();
+      } else if (target.id === "redoButton") {
+        this.redo();
+      }
+    });
+    toolbar.addEventListener("change", (e) => {
+      const target = e.target as HTMLSelectElement;
+      if (target.id === "languageSelect" && isLocale(target.value)) {
+        this.changeLanguage(target.value);
+      }
+    });
+    this.history.onChange(() => this.updateHistoryButtons());
 
-    const confirmDeleteButton = document.getElementById(
-      "confirmDelete"
-    ) as HTMLButtonElement;
-    const cancelDeleteButton = document.getElementById(
-      "cancelDelete"
-    ) as HTMLButtonElement;
+    document.addEventListener("keydown", (e) => this.handleHistoryShortcut(e));
+  }
 
-    confirmDeleteButton.addEventListener("click", () => this.confirmDelete());
-    cancelDeleteButton.addEventListener("click", () => this.cancelDelete());
+  /**
+   * Handles Ctrl+Z (undo) and Ctrl+Shift+Z / Ctrl+Y (redo), or Cmd on macOS.
+   * Shortcuts typed into form fields are left to the browser's own text undo.
+   * @param {KeyboardEvent} e - The keydown event.
+   */
+
+  private handleHistoryShortcut(e: KeyboardEvent): void {
+    const target = e.target as HTMLElement;
+    if (
+      !(e.ctrlKey || e.metaKey) ||
+      target.closest("input, textarea, select, [contenteditable]")
+    ) {
+      return;
+    }
+
+    const key = e.key.toLowerCase();
+    if (key === "z" && !e.shiftKey) {
+      e.preventDefault();
+      this.undo();
+    } else if ((key === "z" && e.shiftKey) || key === "y") {
+      e.preventDefault();
+      this.redo();
+    }
   }
 
   /**
-   * Adds new data to the application state.
-   * @param {FormData} data - The data to be added.
+   * Applies a record mutation as an undoable command, re-renders the table
+   * and shows a notification offering to undo it.
+   * @param {string} label - A short description of the change.
+   * @param {string} message - The notification message.
+   * @param {() => void} mutate - Applies the change through the state manager.
    */
 
-  private addData(data: FormData): void {
-    const currentData = this.stateManager.getData();
-    this.stateManager.setData([data, ...currentData]);
+  private runCommand(label: string, message: string, mutate: () => void): void {
+    this.executeCommand(
+      new StateSnapshotCommand(label, this.stateManager, mutate),
+      message
+    );
+  }
+
+  /**
+   * Executes an undoable command, re-renders the table and shows a
+   * notification offering to undo it.
+   * @param {Command} command - The command to execute.
+   * @param {string} message - The notification message.
+   */
+
+  private executeCommand(command: Command, message: string): void {
+    this.history.execute(command);
+    this.refreshViews();
+    Notification.show(message, 5000, {
+      label: t("app.undo"),
+      onClick: () => this.undo(),
+    });
+  }
+
+  /**
+   * Re-renders the table, and the record details, trash and duplicates
+   * dialogs if they are open, from the current state.
+   */
+
+  private refreshViews(): void {
     if (this.tableComponent) {
       this.tableComponent.render(this.stateManager.getData());
     }
-    Notification.show("Data submitted successfully");
+    if (this.recordDetailsComponent) {
+      this.recordDetailsComponent.update(this.stateManager.getData());
+    }
+    if (this.trashComponent) {
+      this.trashComponent.update(
+        this.stateManager.getDeletedData(),
+        this.stateManager.getTrashRetentionDays()
+      );
+    }
+    if (this.duplicatesComponent) {
+      this.duplicatesComponent.update(this.stateManager.getData());
+    }
+  }
+
+  /**
+   * Reverts the most recent record mutation.
+   */
+
+  private undo(): void {
+    const command = this.history.undo();
+    if (command) {
+      this.refreshViews();
+      Notification.show(t("app.undone", { label: command.label }), 5000, {
+        label: t("app.redo"),
+        onClick: () => this.redo(),
+      });
+    }
+  }
+
+  /**
+   * Re-applies the most recently undone record mutation.
+   */
+
+  private redo(): void {
+    const command = this.history.redo();
+    if (command) {
+      this.refreshViews();
+      Notification.show(t("app.redone", { label: command.label }), 5000, {
+        label: t("app.undo"),
+        onClick: () => this.undo(),
+      });
+    }
+  }
+
+  /**
+   * Enables the undo and redo buttons when there is something to undo or redo.
+   */
+
+  private updateHistoryButtons(): void {
+    const undoButton = document.getElementById("undoButton") as HTMLButtonElement;
+    const redoButton = document.getElementById("redoButton") as HTMLButtonElement;
+    const nextUndo = this.history.peekUndo();
+    const nextRedo = this.history.peekRedo();
+
+    undoButton.disabled = !nextUndo;
+    undoButton.title = nextUndo
+      ? t("app.undoTitle", { label: nextUndo.label })
+      : "";
+    redoButton.disabled = !nextRedo;
+    redoButton.title = nextRedo
+      ? t("app.redoTitle", { label: nextRedo.label })
+      : "";
+  }
+
+  /**
+   * Tells the user when saved data could not be loaded and was set aside.
+   */
+
+  private reportLoadErrors(): void {
+    if (this.stateManager.getLoadErrors().length > 0) {
+      Notification.show(t("app.loadErrors"), 6000);
+    }
+  }
+
+  /**
+   * Adds new data to the application state.
+   * @param {FormData} data - The data to be added.
+   */
+
+  private addData(data: FormData): void {
+    this.runCommand(t("commands.add"), t("app.recordAdded"), () => {
+      const currentData = this.stateManager.getData();
+      this.stateManager.setData([data, ...currentData]);
+    });
+  }
+
+  /**
+   * Adds a batch of imported records to the application state.
+   * @param {FormData[]} records - The validated records to add.
+   */
+
+  private importData(records: FormData[]): void {
+    this.runCommand(
+      t("commands.import", { count: records.length }),
+      t("app.recordsImported", { count: records.length }),
+      () => {
+        const currentData = this.stateManager.getData();
+        this.stateManager.setData([...records, ...currentData]);
+      }
+    );
+  }
+
+  /**
+   * Opens the export dialog with the active records, the records in the
+   * current table view, the selected records and the deleted records.
+   */
+
+  private showExportModal(): void {
+    const records = this.stateManager.getData();
+    this.exportComponent?.open({
+      records,
+      visibleRecords: this.tableComponent
+        ? this.tableComponent.getVisibleData()
+        : records,
+      selectedRecords: this.tableComponent
+        ? this.tableComponent.getSelectedData()
+        : [],
+      deletedRecords: this.stateManager.getDeletedData(),
+    });
   }
 
   /**
    * Edits an existing item in the application state.
    * @param {string} id - The ID of the item to be edited.
+   * @param {Partial<Record<string, string>>} [values] - Values changed elsewhere, shown instead of the record's.
+   * @param {string[]} [invalidFields] - Fields to check straight away, the first of which gets the focus.
    */
 
-  private editItem(id: string): void {
+  private editItem(
+    id: string,
+    values?: Partial<Record<string, string>>,
+    invalidFields: string[] = []
+  ): void {
     const itemToEdit = this.stateManager
       .getData()
       .find((item) => item.id === id);
     if (itemToEdit && this.formComponent) {
-      this.dataToBeRestore = itemToEdit;
-      this.formComponent.render(itemToEdit);
+      this.formComponent.render(itemToEdit, values);
+      this.formComponent.showErrors(invalidFields);
     }
   }
 
   /**
    * Updates the existing data in the application state.
+   * The previous values are appended to the record's revision history.
+   * The form is reset if it holds the record, so that it cannot save stale
+   * values over a change made elsewhere, such as in the table.
    * @param {FormData} data - The updated data.
    */
 
   private updateData(data: FormData): void {
-    const currentData = this.stateManager.getData();
-    const updatedData = currentData.map((item) =>
-      item.id === data.id ? data : item
+    this.runCommand(t("commands.edit"), t("app.recordUpdated"), () => {
+      const currentData = this.stateManager.getData();
+      const updatedData = currentData.map((item) =>
+        item.id === data.id ? applyRevision(item, getRecordValues(data)) : item
+      );
+      this.stateManager.setData(updatedData);
+    });
+    if (this.formComponent && this.formComponent.getEditId() === data.id) {
+      this.formComponent.render();
+    }
+  }
+
+  /**
+   * Sets new values on several records at once, as a single undoable change.
+   * The previous values of each record are appended to its revision history.
+   * @param {{ id: string; values: RecordValues }[]} updates - The new values of each record.
+   */
+
+  private updateRecords(updates: { id: string; values: RecordValues }[]): void {
+    this.runCommand(
+      t("commands.bulkEdit", { count: updates.length }),
+      t("app.recordsUpdated", { count: updates.length }),
+      () => {
+        this.stateManager.setData(
+          this.stateManager.getData().map((item) => {
+            const update = updates.find(({ id }) => id === item.id);
+            return update ? applyRevision(item, update.values) : item;
+          })
+        );
+      }
     );
-    this.stateManager.deletedData = this.dataToBeRestore;
-    this.stateManager.setData(updatedData);
-    if (this.tableComponent) {
-      this.tableComponent.render(this.stateManager.getData());
+  }
+
+  /**
+   * Opens the details drawer of a record.
+   * @param {string} id - The ID of the record.
+   */
+
+  private showRecordDetails(id: string): void {
+    const record = this.stateManager.getData().find((item) => item.id === id);
+    if (record && this.recordDetailsComponent) {
+      this.recordDetailsComponent.open(record);
     }
-    if (this.formComponent) {
-      this.formComponent.render();
+  }
+
+  /**
+   * Opens the revision history of a record.
+   * @param {string} id - The ID of the record.
+   */
+
+  private showHistory(id: string): void {
+    const record = this.stateManager.getData().find((item) => item.id === id);
+    if (record && this.historyComponent) {
+      this.historyComponent.open(record);
     }
-    this.dataToBeRestore = null;
-    Notification.show("Data updated successfully");
+  }
+
+  /**
+   * Reverts a record to the values of an earlier revision.
+   * The values being replaced are kept as a new revision.
+   * @param {string} id - The ID of the record.
+   * @param {RecordValues} values - The values to revert to.
+   */
+
+  private revertRecord(id: string, values: RecordValues): void {
+    this.runCommand(t("commands.revert"), t("app.recordReverted"), () => {
+      const currentData = this.stateManager.getData();
+      this.stateManager.setData(
+        currentData.map((item) =>
+          item.id === id ? applyRevision(item, values) : item
+        )
+      );
+    });
+  }
+
+  /**
+   * Merges duplicate records into one. The kept record takes the merged
+   * values, with its previous values appended to its history, and the other
+   * records are moved to the trash so they can be restored.
+   * @param {string} survivorId - The ID of the record to keep.
+   * @param {string[]} discardedIds - The IDs of the records merged into it.
+   * @param {RecordValues} values - The merged values.
+   */
+
+  private mergeRecords(
+    survivorId: string,
+    discardedIds: string[],
+    values: RecordValues
+  ): void {
+    const currentData = this.stateManager.getData();
+    const discardedItems = currentData.filter((item) =>
+      discardedIds.includes(item.id)
+    );
+    if (
+      discardedItems.length === 0 ||
+      !currentData.some((item) => item.id === survivorId)
+    ) {
+      return;
+    }
+    const count = discardedItems.length + 1;
+    this.runCommand(
+      t("commands.merge", { count }),
+      t("app.recordsMerged", { count }),
+      () => {
+        const deletedAt = new Date().toISOString();
+        this.stateManager.setData(
+          this.stateManager
+            .getData()
+            .filter((item) => !discardedIds.includes(item.id))
+            .map((item) =>
+              item.id === survivorId ? applyRevision(item, values) : item
+            )
+        );
+        this.stateManager.setDeletedData([
+          ...discardedItems.map((item) => ({ ...item, deletedAt })),
+          ...this.stateManager.getDeletedData(),
+        ]);
+      }
+    );
   }
 
   /**
@@ -258,8 +792,10 @@ export class AppComponent extends BaseComponent {
       "deleteConfirmInput"
     ) as HTMLInputElement;
     deleteConfirmInput.value = "";
+    this.deleteModalTrap?.activate();
     deleteModal.style.display = "block";
     deleteModal.setAttribute("data-id", id);
+    this.deleteModalTrap?.afterRender();
   }
 
   /**
@@ -273,31 +809,13 @@ export class AppComponent extends BaseComponent {
     ) as HTMLInputElement;
     const id = deleteModal.getAttribute("data-id");
 
-    if (deleteConfirmInput.value.toLowerCase() === "delete" && id) {
-      const currentData = this.stateManager.getData();
-      const itemToDelete = currentData.find((item) => item.id === id);
-      if (itemToDelete) {
-        const updatedData = currentData.filter((item) => item.id !== id);
-        this.stateManager.setData(updatedData);
-
-        const currentDeletedData = this.stateManager.getDeletedData();
-        this.stateManager.setDeletedData([
-          itemToDelete,
-          ...currentDeletedData.slice(0, 2),
-        ]);
-
-        if (this.tableComponent) {
-          this.tableComponent.render(this.stateManager.getData());
-        }
-
-        // Emit the delete event
-        this.eventEmitter.emit("deleteData", id);
-
-        Notification.show("Data deleted successfully");
-      }
+    if (deleteConfirmInput.value.toLowerCase() === t("delete.word") && id) {
       deleteModal.style.display = "none";
+      this.deleteModalTrap?.deactivate();
+      // The delete event handler moves the item to the deleted data
+      this.eventEmitter.emit("deleteData", id);
     } else {
-      Notification.show("Please type 'delete' to confirm");
+      Notification.show(t("delete.prompt", { word: t("delete.word") }));
     }
   }
 
@@ -308,108 +826,230 @@ export class AppComponent extends BaseComponent {
   private cancelDelete(): void {
     const deleteModal = document.getElementById("deleteModal") as HTMLElement;
     deleteModal.style.display = "none";
+    this.deleteModalTrap?.deactivate();
   }
 
   /**
-   * Shows the restore modal with the last three deleted submissions.
+   * Opens the trash view.
    */
 
-  private showRestoreModal(): void {
-    const restoreModal = document.getElementById("restoreModal") as HTMLElement;
-    const restoreOptions = document.getElementById(
-      "restoreOptions"
-    ) as HTMLElement;
-    const lastThreeSubmissions = this.getLastThreeSubmissions();
-
-    restoreOptions.innerHTML = lastThreeSubmissions
-      .map((_item) => ``)
-      .join("");
+  private showTrash(): void {
+    this.trashComponent?.open(
+      this.stateManager.getDeletedData(),
+      this.stateManager.getTrashRetentionDays()
+    );
+  }
 
-    restoreModal.style.display = "block";
+  /**
+  * Handles the deletion of data.
+  * @param {string} id - The ID of the data to delete.
+  */
+  private handleDeleteData(id: string): void {
+    const foundItem = this.stateManager
+      .getData()
+      .find((item) => item.id === id);
+    if (!foundItem) {
+      return;
+    }
+    this.runCommand(t("commands.delete"), t("app.recordDeleted"), () => {
+      const currentData = this.stateManager.getData();
+      const updatedData = currentData.filter((item) => item.id !== id);
+      this.stateManager.setData(updatedData);
+      this.stateManager.setDeletedData([
+        { ...foundItem, deletedAt: new Date().toISOString() },
+        ...this.stateManager.getDeletedData(),
+      ]);
+    });
   }
 
   /**
-   * Confirms restoring a previously deleted item.
+   * Moves several records to the trash as a single undoable change. Each
+   * record becomes its own trash item, so they can be restored one by one.
+   * @param {string[]} ids - The IDs of the records to delete.
    */
+  private deleteRecords(ids: string[]): void {
+    const deletedItems = this.stateManager
+      .getData()
+      .filter((item) => ids.includes(item.id));
+    if (deletedItems.length === 0) {
+      return;
+    }
+    this.runCommand(
+      t("commands.bulkDelete", { count: deletedItems.length }),
+      t("app.recordsDeleted", { count: deletedItems.length }),
+      () => {
+        const deletedAt = new Date().toISOString();
+        this.stateManager.setData(
+          this.stateManager.getData().filter((item) => !ids.includes(item.id))
+        );
+        this.stateManager.setDeletedData([
+          ...deletedItems.map((item) => ({ ...item, deletedAt })),
+          ...this.stateManager.getDeletedData(),
+        ]);
+      }
+    );
+  }
 
-  private confirmRestore(): void {
-    const restoreModal = document.getElementById("restoreModal") as HTMLElement;
-    const selectedOption = document.querySelector(
-      'input[name="restoreOption"]:checked'
-    ) as HTMLInputElement;
-    if (selectedOption) {
-      const index = Number.parseInt(selectedOption.value);
-      this.restoreData(index);
-      if (this.tableComponent) {
-        this.tableComponent.render(this.stateManager.getData());
+  /**
+   * Handles the restoration of deleted data.
+   * A record can be in the trash more than once, for example after being
+   * restored, edited and deleted again; only its latest deletion is restored
+   * and the older ones stay in the trash. Restored records replace an active
+   * record with the same ID only once the user confirms it, and its current
+   * values are kept in its history.
+   * @param {string[]} keys - The trash keys of the records to restore.
+   */
+  private handleRestoreDeleteData(keys: string[]): void {
+    const latestById = new Map<string, DeletedRecord>();
+    this.takeFromTrash(keys).forEach((item) => {
+      const latest = latestById.get(item.id);
+      if (!latest || item.deletedAt > latest.deletedAt) {
+        latestById.set(item.id, item);
       }
-      Notification.show("Data restored successfully");
-      restoreModal.style.display = "none";
+    });
+    const restoredItems = [...latestById.values()];
+    if (restoredItems.length === 0) {
+      return;
+    }
+    const activeIds = new Set(this.stateManager.getData().map((item) => item.id));
+    const replacedItems = restoredItems.filter((item) => activeIds.has(item.id));
+    if (
+      replacedItems.length > 0 &&
+      !confirm(
+        t("trash.confirmReplace", {
+          count: replacedItems.length,
+          names: replacedItems.map((item) => item.name),
+        })
+      )
+    ) {
+      return;
     }
+    const restoredKeys = restoredItems.map(getTrashKey);
+    this.runCommand(
+      t("commands.restore", { count: restoredItems.length }),
+      t("app.recordsRestored", { count: restoredItems.length }),
+      () => {
+        const replacements = new Map(
+          replacedItems.map(({ deletedAt, ...item }) => [item.id, item])
+        );
+        const currentData = this.stateManager.getData().map((data) => {
+          const replacement = replacements.get(data.id);
+          return replacement
+            ? applyRevision(data, getRecordValues(replacement))
+            : data;
+        });
+        const restoredData: FormData[] = restoredItems
+          .filter((item) => !replacements.has(item.id))
+          .map(({ deletedAt, ...item }) => item);
+        this.stateManager.setData([...restoredData, ...currentData]);
+        this.stateManager.setDeletedData(
+          this.stateManager
+            .getDeletedData()
+            .filter((item) => !restoredKeys.includes(getTrashKey(item)))
+        );
+      }
+    );
   }
 
   /**
-   * Cancels the restore operation and hides the modal.
+   * Permanently removes records from the trash.
+   * @param {string[]} keys - The trash keys of the records to remove.
    */
-
-  private cancelRestore(): void {
-    const restoreModal = document.getElementById("restoreModal") as HTMLElement;
-    restoreModal.style.display = "none";
+  private purgeDeletedData(keys: string[]): void {
+    const purgedItems = this.takeFromTrash(keys);
+    if (purgedItems.length === 0) {
+      return;
+    }
+    this.runCommand(
+      t("commands.purge", { count: purgedItems.length }),
+      t("app.recordsPurged", { count: purgedItems.length }),
+      () =>
+        this.stateManager.setDeletedData(
+          this.stateManager
+            .getDeletedData()
+            .filter((item) => !keys.includes(getTrashKey(item)))
+        )
+    );
   }
 
   /**
-   * Restores a specific item based on its index in the deleted data array.
-   * @param {number} index - The index of the item to restore.
+   * Permanently removes every record from the trash.
    */
-
-  private restoreData(index: number): void {
-    const deletedData = this.stateManager.getDeletedData();
-    if (index >= 0 && index < deletedData.length) {
-      const restoredItem = deletedData[index];
-      const updatedDeletedData = deletedData.filter((_, i) => i !== index);
-      this.stateManager.setDeletedData(updatedDeletedData);
-
-      const currentData = this.stateManager.getData();
-      this.stateManager.setData([...currentData, restoredItem]);
+  private emptyTrash(): void {
+    const count = this.stateManager.getDeletedData().length;
+    if (count === 0) {
+      return;
     }
+    this.runCommand(
+      t("commands.emptyTrash"),
+      t("app.recordsPurged", { count }),
+      () => this.stateManager.setDeletedData([])
+    );
   }
 
   /**
-   * Retrieves the last three deleted submissions.
-   * @returns {FormData[]} The last three deleted submissions.
+   * Changes how long deleted records are kept. When the new period has
+   * already expired some records, the user is asked first, and they are
+   * purged as an undoable change that also puts the previous period back,
+   * so they are not purged again on the next load.
+   * @param {number | null} days - The retention period in days, or `null` to keep them forever.
    */
-
-  private getLastThreeSubmissions(): FormData[] {
-    return this.stateManager.getDeletedData().slice(0, 3);
+  private setTrashRetention(days: number | null): void {
+    const expiredItems = this.stateManager.getExpiredDeletedData(days);
+    if (
+      expiredItems.length > 0 &&
+      !confirm(t("trash.confirmRetention", { count: expiredItems.length }))
+    ) {
+      // Puts the previous retention period back in the trash view.
+      this.refreshViews();
+      return;
+    }
+    if (expiredItems.length === 0) {
+      this.stateManager.setTrashRetentionDays(days);
+      this.refreshViews();
+      return;
+    }
+    const expiredKeys = expiredItems.map(getTrashKey);
+    const purge = new StateSnapshotCommand(
+      t("commands.purge", { count: expiredItems.length }),
+      this.stateManager,
+      () =>
+        this.stateManager.setDeletedData(
+          this.stateManager
+            .getDeletedData()
+            .filter((item) => !expiredKeys.includes(getTrashKey(item)))
+        )
+    );
+    this.executeCommand(
+      new SettingCommand(
+        purge,
+        () => this.stateManager.getTrashRetentionDays(),
+        (value) => this.stateManager.setTrashRetentionDays(value),
+        days
+      ),
+      t("app.recordsPurged", { count: expiredItems.length })
+    );
   }
 
   /**
-  * Handles the deletion of data.
-  * @param {string} id - The ID of the data to delete.
-  */
-  private handleDeleteData(id: string): void {
-    console.log(`Data with id ${id} has been deleted!`);
-    const currentData = this.stateManager.getData();
-    console.log("currentData", currentData);
-    const foundItem = currentData.find((item) => item.id === id);
-    this.stateManager.deletedData = foundItem;
-    const updatedData = currentData.filter((item) => item.id !== id);
-    this.stateManager.setData(updatedData);
-    this.initializeComponents();
+   * Saves the validation rules edited in the settings screen and applies
+   * them to the form and the import straight away.
+   * @param {RuleOverrides} overrides - The rules that replace the schema defaults.
+   */
+  private saveValidationRules(overrides: RuleOverrides): void {
+    this.stateManager.setValidationRuleOverrides(overrides);
+    setRuleOverrides(overrides);
+    Notification.show(t("app.validationRulesSaved"));
   }
 
   /**
-   * Handles the restoration of deleted data.
-   * @param {string} id - The ID of the data to restore.
+   * Finds the records in the trash with the given keys.
+   * @param {string[]} keys - The trash keys.
+   * @returns {DeletedRecord[]} The matching deleted records.
    */
-  private handleRestoreDeleteData(id: string): void {
-    const currentData = this.stateManager.getData();
-    // const foundItem = currentData.find((item) => item.id === id);
-    // this.stateManager.deletedData = foundItem;
-    this.stateManager.deletedData = null; // const foundItem = currentData.find((item) => item.id === id);
-
-    const updatedData = currentData.filter((item) => item.id !== id);
-    this.stateManager.setData(updatedData);
-    this.initializeComponents();
+  private takeFromTrash(keys: string[]): DeletedRecord[] {
+    return this.stateManager
+      .getDeletedData()
+      .filter((item) => keys.includes(getTrashKey(item)));
   }
 }
@@ -0,0 +1,452 @@
+import { BaseComponent } from "./BaseComponent.ts";
+import type { EventEmitter } from "./EventListener.ts";
+import { FocusTrap } from "./FocusTrap.ts";
+import type {
+  AppEvents,
+  FormData,
+  LocationProvider,
+  RecordValues,
+} from "./Interfaces.ts";
+import { Notification } from "./Notification.ts";
+import {
+  buildRecordValues,
+  formSchema,
+  getDependentFields,
+  getFieldLabel,
+  getFieldSchema,
+  uniqueEmail,
+  uniquePhone,
+  type FieldSchema,
+} from "./formSchema.ts";
+import { t } from "./i18n.ts";
+import { diffRevisions, getRecordValues } from "./revisions.ts";
+import { escapeHtml } from "./utils.ts";
+import { validateFieldAsync } from "./validation.ts";
+
+/**
+ * Steps of the bulk update flow.
+ */
+type BulkUpdateStep = "edit" | "report";
+
+/**
+ * A selected record that cannot take the new value.
+ */
+interface BulkUpdateProblem {
+  record: FormData;
+  message: string;
+}
+
+/**
+ * Fields that can be set in bulk. Fields derived from other fields are left out.
+ */
+const BULK_FIELDS = formSchema.filter((field) => !field.derive);
+
+/**
+ * The location fields, each listed under the one before.
+ */
+const LOCATION_FIELDS: (keyof RecordValues)[] = ["country", "state", "city"];
+
+/**
+ * Tells whether no two records may share the value of a field.
+ * @param {keyof RecordValues} name - The field name.
+ * @returns {boolean} Whether the field has a uniqueness rule.
+ */
+
+function isUniqueField(name: keyof RecordValues): boolean {
+  return Object.values(getFieldSchema(name)?.rules ?? {}).some(
+    (rule) => rule === uniqueEmail || rule === uniquePhone
+  );
+}
+
+/**
+ * Sets one field to the same value on every selected record. Each record
+ * is validated with the new value first, and records that cannot take it
+ * are listed and skipped.
+ * @extends BaseComponent
+ */
+
+export class BulkUpdateComponent extends BaseComponent {
+  private eventEmitter: EventEmitter<AppEvents>;
+  private focusTrap: FocusTrap;
+  private locationProvider: LocationProvider;
+  private step: BulkUpdateStep = "edit";
+  private records: FormData[] = [];
+  private fieldName: keyof RecordValues = BULK_FIELDS[0].name;
+  private value = "";
+  private options: string[] = [];
+  private updates: { id: string; values: RecordValues }[] = [];
+  private problems: BulkUpdateProblem[] = [];
+
+  /**
+   * Constructs the BulkUpdateComponent.
+   * @param {string} elementId - The ID of the DOM element hosting the bulk update dialog.
+   * @param {EventEmitter<AppEvents>} eventEmitter - The event emitter used to hand over the updates.
+   * @param {LocationProvider} locationProvider - The source of the countries, states and cities offered.
+   */
+
+  constructor(
+    elementId: string,
+    eventEmitter: EventEmitter<AppEvents>,
+    locationProvider: LocationProvider
+  ) {
+    super(elementId);
+    this.focusTrap = new FocusTrap(this.element, () => this.close());
+    this.eventEmitter = eventEmitter;
+    this.locationProvider = locationProvider;
+    this.addEventListeners();
+  }
+
+  /**
+   * Opens the bulk update dialog for a set of records.
+   * @param {FormData[]} records - The records to update.
+   */
+
+  open(records: FormData[]): void {
+    this.focusTrap.activate();
+    this.records = records;
+    this.step = "edit";
+    this.selectField(this.getFields()[0].name);
+  }
+
+  /**
+   * Lists the fields that can be set on the records being updated. Fields
+   * whose value must be unique are only offered for a single record, since
+   * the same value on several records would break the rule.
+   * @returns {FieldSchema[]} The fields.
+   */
+
+  private getFields(): FieldSchema[] {
+    return BULK_FIELDS.filter(
+      (field) => this.records.length === 1 || !isUniqueField(field.name)
+    );
+  }
+
+  /**
+   * Closes the bulk update dialog.
+   */
+
+  close(): void {
+    this.records = [];
+    this.element.innerHTML = "";
+    this.focusTrap.deactivate();
+  }
+
+  /**
+   * Renders the current step of the bulk update dialog.
+   */
+
+  render(): void {
+    this.element.innerHTML = `
+      <style>
+        .bulk-update-modal {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          background-color: rgba(0, 0, 0, 0.5);
+          display: flex;
+          justify-content: center;
+          align-items: center;
+          z-index: 1000;
+        }
+        .bulk-update-content {
+          background: #fff;
+          padding: 30px;
+          border-radius: 8px;
+          box-shadow: 0 4px 15px rgba(0, 0, 0, 0.2);
+          width: 500px;
+          max-width: 95%;
+          max-height: 90vh;
+          overflow-y: auto;
+        }
+        .bulk-update-content h2 {
+          margin-bottom: 15px;
+          color: #0062cc;
+        }
+        .bulk-update-content label {
+          display: block;
+          margin-bottom: 15px;
+        }
+        .bulk-update-content select,
+        .bulk-update-content input {
+          display: block;
+          width: 100%;
+          padding: 8px;
+          margin-top: 5px;
+        }
+        .bulk-update-problems {
+          margin: 0 0 15px 20px;
+          color: #dc3545;
+        }
+        .bulk-update-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: 10px;
+        }
+        .bulk-update-actions button:disabled {
+          cursor: not-allowed;
+          opacity: 0.5;
+        }
+      </style>
+      <div class="bulk-update-modal">
+        <div class="bulk-update-content" role="dialog" aria-modal="true" aria-labelledby="bulkUpdateTitle">
+          <h2 id="bulkUpdateTitle">${t("bulkUpdate.title", { count: this.records.length })}</h2>
+          ${this.step === "report" ? this.renderReportStep() : this.renderEditStep()}
+        </div>
+      </div>
+    `;
+    this.focusTrap.afterRender();
+  }
+
+  /**
+   * Renders the field and value selection step.
+   * @returns {string} The HTML for the edit step.
+   */
+
+  private renderEditStep(): string {
+    const fieldOptions = this.getFields().map(
+      (field) =>
+        `<option value="${field.name}" ${field.name === this.fieldName ? "selected" : ""}>${getFieldLabel(field.name)}</option>`
+    ).join("");
+
+    const field = getFieldSchema(this.fieldName);
+    const valueControl =
+      this.options.length > 0
+        ? `<select id="bulkValue">
+            <option value="">${t("bulkUpdate.choose")}</option>
+            ${this.options
+          .map(
+            (option) =>
+              `<option value="${escapeHtml(option)}" ${option === this.value ? "selected" : ""}>${escapeHtml(option)}</option>`
+          )
+          .join("")}
+          </select>`
+        : `<input type="${field?.type ?? "text"}" id="bulkValue" value="${escapeHtml(this.value)}" />`;
+
+    return `
+      <label>
+        ${t("bulkUpdate.field")}
+        <select id="bulkField">${fieldOptions}</select>
+      </label>
+      <label>
+        ${t("bulkUpdate.value")}
+        ${valueControl}
+      </label>
+      <div class="bulk-update-actions">
+        <button type="button" data-action="apply">${t("bulkUpdate.apply")}</button>
+        <button type="button" data-action="cancel">${t("common.cancel")}</button>
+      </div>
+    `;
+  }
+
+  /**
+   * Renders the list of records that cannot take the new value.
+   * @returns {string} The HTML for the report step.
+   */
+
+  private renderReportStep(): string {
+    const problems = this.problems
+      .map(
+        (problem) =>
+          `<li><strong>${escapeHtml(problem.record.name)}:</strong> ${escapeHtml(problem.message)}</li>`
+      )
+      .join("");
+
+    return `
+      <p>${t("bulkUpdate.invalid", { count: this.problems.length })}</p>
+      <ul class="bulk-update-problems">${problems}</ul>
+      <div class="bulk-update-actions">
+        <button type="button" data-action="back">${t("common.back")}</button>
+        <button type="button" data-action="commit" ${this.updates.length === 0 ? "disabled" : ""}>
+          ${t("bulkUpdate.commit", { count: this.updates.length })}
+        </button>
+        <button type="button" data-action="cancel">${t("common.cancel")}</button>
+      </div>
+    `;
+  }
+
+  /**
+   * Chooses the field to update and loads the values offered for it.
+   * Dropdown fields offer the countries, or the states and cities of the
+   * selected records' countries and states.
+   * @param {keyof RecordValues} name - The field name.
+   */
+
+  private async selectField(name: keyof RecordValues): Promise<void> {
+    this.fieldName = name;
+    this.value = "";
+    this.options = [];
+    if (getFieldSchema(name)?.widget === "select") {
+      const lists = await Promise.all(
+        name === "country"
+          ? [this.locationProvider.getCountries()]
+          : this.getDistinct((record) =>
+            name === "state" ? record.country : `${record.country}|${record.state}`
+          ).map((key) => {
+            const [country, state] = key.split("|");
+            return name === "state"
+              ? this.locationProvider.getStates(country)
+              : this.locationProvider.getCities(country, state);
+          })
+      );
+      this.options = [...new Set(lists.flat())].sort((a, b) => a.localeCompare(b));
+    }
+    this.render();
+  }
+
+  /**
+   * Lists the distinct values of a key across the records.
+   * @param {(record: FormData) => string} getKey - Returns the key of a record.
+   * @returns {string[]} The distinct keys.
+   */
+
+  private getDistinct(getKey: (record: FormData) => string): string[] {
+    return [...new Set(this.records.map(getKey))];
+  }
+
+  /**
+   * Validates the new value against every record, together with the fields
+   * that depend on it and, for a country or state, the location fields
+   * below it. Applies the update straight away when every record can take
+   * it, and otherwise shows the records that cannot.
+   */
+
+  private async validate(): Promise<void> {
+    const locationIndex = LOCATION_FIELDS.indexOf(this.fieldName);
+    const fieldNames = [
+      this.fieldName,
+      ...getDependentFields(this.fieldName).map((field) => field.name),
+      ...(locationIndex === -1 ? [] : LOCATION_FIELDS.slice(locationIndex + 1)),
+    ];
+    this.updates = [];
+    this.problems = [];
+
+    // Each record is only checked against the stored records, so a unique
+    // value given to several selected records would pass for every one.
+    const sharesUniqueValue =
+      this.records.length > 1 && isUniqueField(this.fieldName) && this.value.trim() !== "";
+
+    for (const record of this.records) {
+      if (sharesUniqueValue) {
+        this.problems.push({
+          record,
+          message: t("bulkUpdate.mustBeUnique", { field: getFieldLabel(this.fieldName) }),
+        });
+        continue;
+      }
+      const values: Partial<Record<string, string>> = {};
+      formSchema.forEach((field) => {
+        values[field.name] = String(record[field.name] ?? "");
+      });
+      values[this.fieldName] = this.value.trim();
+      getDependentFields(this.fieldName).forEach((field) => {
+        const derived = field.derive?.(values);
+        if (derived !== undefined && derived !== null) {
+          values[field.name] = derived;
+        }
+      });
+
+      let message: string | null = null;
+      for (const name of fieldNames) {
+        const error = await validateFieldAsync(name, values[name] ?? "", {
+          editId: record.id,
+          values,
+        });
+        if (error) {
+          message = `${getFieldLabel(name)}: ${error}`;
+          break;
+        }
+      }
+      if (!message && locationIndex !== -1) {
+        message = await this.checkLocation(values);
+      }
+
+      const updated = buildRecordValues((name) => values[name] ?? "");
+      if (message) {
+        this.problems.push({ record, message });
+      } else if (diffRevisions(getRecordValues(record), updated).length > 0) {
+        this.updates.push({ id: record.id, values: updated });
+      }
+    }
+
+    if (this.problems.length > 0) {
+      this.step = "report";
+      this.render();
+    } else {
+      this.commit();
+    }
+  }
+
+  /**
+   * Checks that the state and city of a record are listed under its country
+   * and state, so setting a new country or state is not accepted for a
+   * record whose state or city belongs to another place.
+   * @param {Partial<Record<string, string>>} values - The record values with the new value.
+   * @returns {Promise<string | null>} The problem, or `null` if the location is consistent.
+   */
+
+  private async checkLocation(
+    values: Partial<Record<string, string>>
+  ): Promise<string | null> {
+    const { country = "", state = "", city = "" } = values;
+    const states = await this.locationProvider.getStates(country);
+    if (!states.includes(state)) {
+      return `${getFieldLabel("state")}: ${t("bulkUpdate.notInLocation", { value: state, place: country })}`;
+    }
+    const cities = await this.locationProvider.getCities(country, state);
+    if (!cities.includes(city)) {
+      return `${getFieldLabel("city")}: ${t("bulkUpdate.notInLocation", { value: city, place: `${state}, ${country}` })}`;
+    }
+    return null;
+  }
+
+  /**
+   * Emits the updates of the records that can take the new value and closes the dialog.
+   */
+
+  private commit(): void {
+    if (this.updates.length > 0) {
+      this.eventEmitter.emit("updateRecords", this.updates);
+    } else {
+      Notification.show(t("bulkUpdate.unchanged"));
+    }
+    this.close();
+  }
+
+  /**
+   * Adds delegated event listeners for the dialog controls.
+   */
+
+  private addEventListeners(): void {
+    this.element.addEventListener("change", (e) => {
+      const target = e.target as HTMLInputElement | HTMLSelectElement;
+      if (target.id === "bulkField") {
+        this.selectField(target.value as keyof RecordValues);
+      } else if (target.id === "bulkValue") {
+        this.value = target.value;
+      }
+    });
+
+    this.element.addEventListener("input", (e) => {
+      const target = e.target as HTMLInputElement | HTMLSelectElement;
+      if (target.id === "bulkValue") {
+        this.value = target.value;
+      }
+    });
+
+    this.element.addEventListener("click", (e) => {
+      const action = (e.target as HTMLElement).getAttribute("data-action");
+      if (action === "cancel") {
+        this.close();
+      } else if (action === "back") {
+        this.step = "edit";
+        this.render();
+      } else if (action === "apply") {
+        this.validate();
+      } else if (action === "commit") {
+        this.commit();
+      }
+    });
+  }
+}
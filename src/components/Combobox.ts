@@ -0,0 +1,240 @@
+import { escapeHtml } from "./utils.ts";
+import { t } from "./i18n.ts";
+
+/**
+ * An option offered by a combobox.
+ */
+export interface ComboboxOption {
+  /**
+   * The value the input takes when the option is chosen.
+   */
+  value: string;
+
+  /**
+   * Extra text shown next to the value in the list.
+   */
+  note?: string;
+}
+
+/**
+ * A type-to-search replacement for a `<select>`, built on a text input and
+ * a listbox. Typing filters the options; the value can only become one of
+ * the options or empty, so text that matches no option is discarded when the
+ * input loses focus. The input only fires `change` events when an option is
+ * chosen, never for the text typed into it.
+ */
+
+export class Combobox {
+  private input: HTMLInputElement;
+  private listbox: HTMLElement;
+  private options: ComboboxOption[] = [];
+  private matches: ComboboxOption[] = [];
+  private activeIndex = -1;
+  private value = "";
+  private isOpen = false;
+  private isDispatching = false;
+
+  /**
+   * Creates a Combobox.
+   * @param {HTMLInputElement} input - The text input the user types into.
+   * @param {HTMLElement} listbox - The element that lists the matching options.
+   */
+
+  constructor(input: HTMLInputElement, listbox: HTMLElement) {
+    this.input = input;
+    this.listbox = listbox;
+    this.value = input.value;
+    this.addEventListeners();
+  }
+
+  /**
+   * Replaces the options. The current value is kept even if it is not one of them.
+   * @param {ComboboxOption[]} options - The new options.
+   */
+
+  setOptions(options: ComboboxOption[]): void {
+    this.options = options;
+    if (this.isOpen) {
+      this.open();
+    }
+  }
+
+  /**
+   * Sets the value without firing a `change` event.
+   * @param {string} value - The new value.
+   */
+
+  setValue(value: string): void {
+    this.value = value;
+    this.input.value = value;
+  }
+
+  /**
+   * Shows the options matching the typed text.
+   * The full list is shown while the text is empty or still equals the value.
+   */
+
+  private open(): void {
+    const query = this.input.value.trim().toLowerCase();
+    const showAll = query === "" || this.input.value === this.value;
+    this.matches = this.options.filter(
+      (option) => showAll || option.value.toLowerCase().includes(query)
+    );
+    this.activeIndex = this.matches.findIndex(
+      (option) => option.value === this.value
+    );
+    this.isOpen = true;
+    this.renderList();
+  }
+
+  /**
+   * Hides the options.
+   */
+
+  private close(): void {
+    this.isOpen = false;
+    this.activeIndex = -1;
+    this.renderList();
+  }
+
+  /**
+   * Renders the listbox and updates the ARIA state of the input.
+   */
+
+  private renderList(): void {
+    this.listbox.hidden = !this.isOpen;
+    this.input.setAttribute("aria-expanded", String(this.isOpen));
+    if (!this.isOpen) {
+      this.input.removeAttribute("aria-activedescendant");
+      this.listbox.innerHTML = "";
+      return;
+    }
+
+    this.listbox.innerHTML =
+      this.matches.length > 0
+        ? this.matches
+          .map(
+            (option, index) => `
+              <li id="${this.input.id}-option-${index}" role="option" data-index="${index}"
+                class="${index === this.activeIndex ? "active" : ""}"
+                aria-selected="${option.value === this.value}">
+                ${escapeHtml(option.value)}
+                ${option.note ? `<span class="combobox-note">${escapeHtml(option.note)}</span>` : ""}
+              </li>
+            `
+          )
+          .join("")
+        : `<li class="combobox-empty">${t("form.noMatches")}</li>`;
+
+    if (this.activeIndex >= 0) {
+      const activeId = `${this.input.id}-option-${this.activeIndex}`;
+      this.input.setAttribute("aria-activedescendant", activeId);
+      this.listbox
+        .querySelector(`#${CSS.escape(activeId)}`)
+        ?.scrollIntoView({ block: "nearest" });
+    } else {
+      this.input.removeAttribute("aria-activedescendant");
+    }
+  }
+
+  /**
+   * Moves the highlighted option, opening the list if needed.
+   * @param {number} step - `1` to move down, `-1` to move up.
+   */
+
+  private moveActive(step: number): void {
+    if (!this.isOpen) {
+      this.open();
+      return;
+    }
+    if (this.matches.length === 0) {
+      return;
+    }
+    this.activeIndex =
+      (this.activeIndex + step + this.matches.length) % this.matches.length;
+    this.renderList();
+  }
+
+  /**
+   * Chooses a value, closes the list and fires `change` if the value changed.
+   * @param {string} value - The chosen value.
+   */
+
+  private choose(value: string): void {
+    const changed = value !== this.value;
+    this.setValue(value);
+    this.close();
+    if (changed) {
+      this.isDispatching = true;
+      this.input.dispatchEvent(new Event("change", { bubbles: true }));
+      this.isDispatching = false;
+    }
+  }
+
+  /**
+   * Turns the typed text into a value: an exact match (ignoring case) is
+   * chosen, empty text clears the value and anything else is discarded.
+   */
+
+  private commitTypedText(): void {
+    const text = this.input.value.trim().toLowerCase();
+    const match = this.options.find(
+      (option) => option.value.toLowerCase() === text
+    );
+    if (text === "") {
+      this.choose("");
+    } else if (match) {
+      this.choose(match.value);
+    } else {
+      this.setValue(this.value);
+      this.close();
+    }
+  }
+
+  /**
+   * Adds listeners for typing, keyboard navigation and choosing with the mouse.
+   */
+
+  private addEventListeners(): void {
+    this.input.addEventListener("change", (e) => {
+      if (!this.isDispatching) {
+        e.stopImmediatePropagation();
+      }
+    });
+    this.input.addEventListener("focus", () => this.open());
+    this.input.addEventListener("input", () => this.open());
+    this.input.addEventListener("blur", () => this.commitTypedText());
+
+    this.input.addEventListener("keydown", (e) => {
+      if (e.key === "ArrowDown") {
+        e.preventDefault();
+        this.moveActive(1);
+      } else if (e.key === "ArrowUp") {
+        e.preventDefault();
+        this.moveActive(-1);
+      } else if (e.key === "Enter" && this.isOpen) {
+        e.preventDefault();
+        const option = this.matches[this.activeIndex];
+        if (option) {
+          this.choose(option.value);
+        } else {
+          this.commitTypedText();
+        }
+      } else if (e.key === "Escape" && this.isOpen) {
+        e.preventDefault();
+        this.setValue(this.value);
+        this.close();
+      }
+    });
+
+    this.listbox.addEventListener("mousedown", (e) => {
+      // Keep the focus in the input so choosing does not count as a blur.
+      e.preventDefault();
+      const item = (e.target as HTMLElement).closest("[data-index]");
+      if (item) {
+        const index = Number.parseInt(item.getAttribute("data-index") as string, 10);
+        this.choose(this.matches[index].value);
+      }
+    });
+  }
+}
@@ -0,0 +1,261 @@
+import type {
+  Command,
+  DeletedRecord,
+  FormData,
+  StateManager,
+} from "./Interfaces.ts";
+
+/**
+ * The active and deleted records at a point in time.
+ */
+interface StateSnapshot {
+  data: FormData[];
+  deletedData: DeletedRecord[];
+}
+
+/**
+ * A command that applies a record mutation and reverts it by restoring
+ * the active and deleted records captured before the mutation ran.
+ * @implements {Command}
+ */
+
+export class StateSnapshotCommand implements Command {
+  label: string;
+  private stateManager: StateManager;
+  private mutate: () => void;
+  private before: StateSnapshot | null = null;
+  private after: StateSnapshot | null = null;
+
+  /**
+   * Creates a StateSnapshotCommand.
+   * @param {string} label - A short description of the change.
+   * @param {StateManager} stateManager - The state the mutation changes.
+   * @param {() => void} mutate - Applies the change through the state manager.
+   */
+
+  constructor(label: string, stateManager: StateManager, mutate: () => void) {
+    this.label = label;
+    this.stateManager = stateManager;
+    this.mutate = mutate;
+  }
+
+  /**
+   * Runs the mutation the first time, and restores its result on redo.
+   */
+
+  execute(): void {
+    if (this.after) {
+      this.restore(this.after);
+      return;
+    }
+    this.before = this.capture();
+    this.mutate();
+    this.after = this.capture();
+  }
+
+  /**
+   * Restores the records captured before the mutation ran.
+   */
+
+  undo(): void {
+    if (this.before) {
+      this.restore(this.before);
+    }
+  }
+
+  /**
+   * Copies the current active and deleted records.
+   * @returns {StateSnapshot} The captured records.
+   * @private
+   */
+
+  private capture(): StateSnapshot {
+    return {
+      data: this.stateManager.getData().map((item) => ({ ...item })),
+      deletedData: this.stateManager
+        .getDeletedData()
+        .map((item) => ({ ...item })),
+    };
+  }
+
+  /**
+   * Replaces the active and deleted records with a snapshot.
+   * @param {StateSnapshot} snapshot - The records to restore.
+   * @private
+   */
+
+  private restore(snapshot: StateSnapshot): void {
+    this.stateManager.setData(snapshot.data.map((item) => ({ ...item })));
+    this.stateManager.setDeletedData(
+      snapshot.deletedData.map((item) => ({ ...item }))
+    );
+  }
+}
+
+/**
+ * A command that changes a setting along with another command, and puts
+ * the previous setting back when it is undone.
+ * @implements {Command}
+ */
+
+export class SettingCommand<T> implements Command {
+  label: string;
+  private command: Command;
+  private getValue: () => T;
+  private setValue: (value: T) => void;
+  private value: T;
+  private previousValue: T | undefined;
+
+  /**
+   * Creates a SettingCommand.
+   * @param {Command} command - The command run along with the setting change.
+   * @param {() => T} getValue - Reads the setting.
+   * @param {(value: T) => void} setValue - Writes the setting.
+   * @param {T} value - The new value of the setting.
+   */
+
+  constructor(
+    command: Command,
+    getValue: () => T,
+    setValue: (value: T) => void,
+    value: T
+  ) {
+    this.label = command.label;
+    this.command = command;
+    this.getValue = getValue;
+    this.setValue = setValue;
+    this.value = value;
+  }
+
+  /**
+   * Changes the setting, then runs the command.
+   */
+
+  execute(): void {
+    this.previousValue = this.getValue();
+    this.setValue(this.value);
+    this.command.execute();
+  }
+
+  /**
+   * Undoes the command, then puts the previous setting back.
+   */
+
+  undo(): void {
+    this.command.undo();
+    if (this.previousValue !== undefined) {
+      this.setValue(this.previousValue);
+    }
+  }
+}
+
+/**
+ * Keeps a capped undo/redo history of executed commands.
+ * The history lives in memory only, so it starts empty after a reload.
+ */
+
+export class CommandHistory {
+  private undoStack: Command[] = [];
+  private redoStack: Command[] = [];
+  private limit: number;
+  private changeListeners: (() => void)[] = [];
+
+  /**
+   * Creates a CommandHistory.
+   * @param {number} [limit=50] - The maximum number of commands that can be undone.
+   */
+
+  constructor(limit = 50) {
+    this.limit = limit;
+  }
+
+  /**
+   * Executes a command and records it for undo. Clears the redo history.
+   * @param {Command} command - The command to execute.
+   */
+
+  execute(command: Command): void {
+    command.execute();
+    this.undoStack = [...this.undoStack, command].slice(-this.limit);
+    this.redoStack = [];
+    this.notifyChange();
+  }
+
+  /**
+   * Undoes the most recent command.
+   * @returns {Command | null} The undone command, or `null` if there was nothing to undo.
+   */
+
+  undo(): Command | null {
+    const command = this.undoStack.pop();
+    if (!command) {
+      return null;
+    }
+    command.undo();
+    this.redoStack.push(command);
+    this.notifyChange();
+    return command;
+  }
+
+  /**
+   * Redoes the most recently undone command.
+   * @returns {Command | null} The redone command, or `null` if there was nothing to redo.
+   */
+
+  redo(): Command | null {
+    const command = this.redoStack.pop();
+    if (!command) {
+      return null;
+    }
+    command.execute();
+    this.undoStack.push(command);
+    this.notifyChange();
+    return command;
+  }
+
+  /**
+   * Returns the command that `undo` would revert.
+   * @returns {Command | null} The next command to undo, if any.
+   */
+
+  peekUndo(): Command | null {
+    return this.undoStack[this.undoStack.length - 1] ?? null;
+  }
+
+  /**
+   * Returns the command that `redo` would apply.
+   * @returns {Command | null} The next command to redo, if any.
+   */
+
+  peekRedo(): Command | null {
+    return this.redoStack[this.redoStack.length - 1] ?? null;
+  }
+
+  /**
+   * Forgets every recorded command.
+   */
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notifyChange();
+  }
+
+  /**
+   * Registers a callback run whenever the history changes.
+   * @param {() => void} callback - The callback to run.
+   */
+
+  onChange(callback: () => void): void {
+    this.changeListeners.push(callback);
+  }
+
+  /**
+   * Runs the change callbacks.
+   * @private
+   */
+
+  private notifyChange(): void {
+    this.changeListeners.forEach((callback) => callback());
+  }
+}
@@ -0,0 +1,415 @@
+import { BaseComponent } from "./BaseComponent.ts";
+import type { EventEmitter } from "./EventListener.ts";
+import { FocusTrap } from "./FocusTrap.ts";
+import type { AppEvents, FormData, RecordValues } from "./Interfaces.ts";
+import { formatPhone } from "./countryFormats.ts";
+import { findDuplicateGroups, type DuplicateGroup } from "./duplicates.ts";
+import {
+  buildRecordValues,
+  formSchema,
+  getFieldLabel,
+  type FieldSchema,
+} from "./formSchema.ts";
+import { formatDate, formatDateTime, t } from "./i18n.ts";
+import { escapeHtml } from "./utils.ts";
+
+/**
+ * Lists groups of records that look like duplicates and merges a group
+ * into one record, with the user picking the record to keep and the value
+ * to keep for each field. The other records of the group go to the trash.
+ * @extends BaseComponent
+ */
+
+export class DuplicatesComponent extends BaseComponent {
+  private eventEmitter: EventEmitter<AppEvents>;
+  private focusTrap: FocusTrap;
+  private groups: DuplicateGroup[] = [];
+  private activeGroup: DuplicateGroup | null = null;
+  private survivorId = "";
+  private sources = new Map<keyof RecordValues, string>();
+  private isOpen = false;
+
+  /**
+   * Constructs the DuplicatesComponent.
+   * @param {string} elementId - The ID of the DOM element hosting the duplicates dialog.
+   * @param {EventEmitter<AppEvents>} eventEmitter - The event emitter used to request merges.
+   */
+
+  constructor(elementId: string, eventEmitter: EventEmitter<AppEvents>) {
+    super(elementId);
+    this.focusTrap = new FocusTrap(this.element, () => this.close());
+    this.eventEmitter = eventEmitter;
+    this.addEventListeners();
+  }
+
+  /**
+   * Opens the duplicates dialog on the list of duplicate groups.
+   * @param {FormData[]} records - The active records.
+   */
+
+  open(records: FormData[]): void {
+    this.focusTrap.activate();
+    this.isOpen = true;
+    this.activeGroup = null;
+    this.update(records);
+  }
+
+  /**
+   * Searches the records for duplicates again if the dialog is open.
+   * The group being merged stays open while all of its records still exist
+   * and are still grouped together.
+   * @param {FormData[]} records - The active records.
+   */
+
+  update(records: FormData[]): void {
+    if (!this.isOpen) {
+      return;
+    }
+    this.groups = findDuplicateGroups(records);
+    if (this.activeGroup) {
+      const ids = this.activeGroup.records.map((record) => record.id);
+      const group = this.groups.find((candidate) =>
+        ids.every((id) => candidate.records.some((record) => record.id === id))
+      );
+      if (group && group.records.length === ids.length) {
+        this.activeGroup = group;
+      } else {
+        this.activeGroup = null;
+      }
+    }
+    this.render();
+  }
+
+  /**
+   * Closes the duplicates dialog.
+   */
+
+  close(): void {
+    this.isOpen = false;
+    this.activeGroup = null;
+    this.element.innerHTML = "";
+    this.focusTrap.deactivate();
+  }
+
+  /**
+   * Renders the duplicates dialog, showing either the list of groups or
+   * the merge view of the selected group.
+   */
+
+  render(): void {
+    this.element.innerHTML = `
+      <style>
+        .duplicates-modal {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          background-color: rgba(0, 0, 0, 0.5);
+          display: flex;
+          justify-content: center;
+          align-items: center;
+          z-index: 1000;
+        }
+        .duplicates-content {
+          background: #fff;
+          padding: 30px;
+          border-radius: 8px;
+          box-shadow: 0 4px 15px rgba(0, 0, 0, 0.2);
+          width: 900px;
+          max-width: 95%;
+          max-height: 90vh;
+          overflow-y: auto;
+        }
+        .duplicates-content h2 {
+          margin-bottom: 15px;
+          color: #0062cc;
+        }
+        .duplicates-content p {
+          margin-bottom: 15px;
+        }
+        .duplicate-groups {
+          list-style: none;
+          margin-bottom: 15px;
+        }
+        .duplicate-groups li {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 10px;
+          padding: 10px 0;
+          border-bottom: 1px solid #ddd;
+        }
+        .duplicate-reasons {
+          font-size: 13px;
+          color: #666;
+        }
+        .merge-table {
+          width: 100%;
+          margin-bottom: 15px;
+          font-size: 14px;
+        }
+        .merge-table th,
+        .merge-table td {
+          vertical-align: top;
+        }
+        .merge-table tr.differs th,
+        .merge-table tr.differs td {
+          background-color: #fff3cd;
+        }
+        .merge-table label {
+          display: flex;
+          align-items: flex-start;
+          gap: 5px;
+          font-weight: normal;
+        }
+        .merge-table input[type="radio"] {
+          width: auto;
+          margin-top: 4px;
+        }
+        .merge-table small {
+          display: block;
+          color: #666;
+        }
+        .duplicates-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: 10px;
+        }
+      </style>
+      <div class="duplicates-modal">
+        <div class="duplicates-content" role="dialog" aria-modal="true" aria-labelledby="duplicatesTitle">
+          ${this.activeGroup ? this.renderMerge(this.activeGroup) : this.renderGroups()}
+        </div>
+      </div>
+    `;
+    this.focusTrap.afterRender();
+  }
+
+  /**
+   * Renders the list of duplicate groups.
+   * @returns {string} The HTML for the list.
+   */
+
+  private renderGroups(): string {
+    const items = this.groups
+      .map(
+        (group, index) => `
+          <li>
+            <div>
+              <strong>${group.records.map((record) => escapeHtml(record.name)).join(", ")}</strong>
+              <div class="duplicate-reasons">
+                ${t("duplicates.records", { count: group.records.length })} ·
+                ${group.reasons.map((reason) => t(`duplicates.reasons.${reason}`)).join(", ")}
+              </div>
+            </div>
+            <button type="button" data-action="review" data-group="${index}">
+              ${t("duplicates.review")}
+            </button>
+          </li>
+        `
+      )
+      .join("");
+
+    return `
+      <h2 id="duplicatesTitle">${t("duplicates.title", { count: this.groups.length })}</h2>
+      ${this.groups.length > 0
+        ? `<ul class="duplicate-groups">${items}</ul>`
+        : `<p>${t("duplicates.none")}</p>`
+      }
+      <div class="duplicates-actions">
+        <button type="button" data-action="close">${t("common.close")}</button>
+      </div>
+    `;
+  }
+
+  /**
+   * Renders the merge view of a group, with a column per record.
+   * @param {DuplicateGroup} group - The group being merged.
+   * @returns {string} The HTML for the merge view.
+   */
+
+  private renderMerge(group: DuplicateGroup): string {
+    const headerCells = group.records
+      .map(
+        (record) => `
+          <th>
+            <label>
+              <input type="radio" name="mergeSurvivor" value="${escapeHtml(record.id)}" ${record.id === this.survivorId ? "checked" : ""} />
+              <span>
+                ${t("duplicates.keep")}
+                <small>${t("duplicates.savedAt", { date: escapeHtml(formatDateTime(record.timeStamp)) })}</small>
+              </span>
+            </label>
+          </th>
+        `
+      )
+      .join("");
+
+    const rows = formSchema
+      .map((field) => {
+        const values = group.records.map((record) => String(record[field.name] ?? ""));
+        const differs = new Set(values).size > 1;
+        const cells = group.records
+          .map(
+            (record) => `
+              <td>
+                <label>
+                  <input type="radio" name="merge-${field.name}" data-field="${field.name}" value="${escapeHtml(record.id)}" ${this.sources.get(field.name) === record.id ? "checked" : ""} />
+                  <span>${this.formatValue(field, record)}</span>
+                </label>
+              </td>
+            `
+          )
+          .join("");
+        return `
+          <tr class="${differs ? "differs" : ""}">
+            <th>${getFieldLabel(field.name)}</th>
+            ${cells}
+          </tr>
+        `;
+      })
+      .join("");
+
+    return `
+      <h2 id="duplicatesTitle">${t("duplicates.mergeTitle", { count: group.records.length })}</h2>
+      <p>${t("duplicates.instructions")}</p>
+      <table class="merge-table">
+        <thead>
+          <tr>
+            <th>${t("duplicates.field")}</th>
+            ${headerCells}
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+      <div class="duplicates-actions">
+        <button type="button" data-action="merge">${t("duplicates.merge")}</button>
+        <button type="button" data-action="back">${t("common.back")}</button>
+      </div>
+    `;
+  }
+
+  /**
+   * Formats a field value of a record for display.
+   * @param {FieldSchema} field - The field.
+   * @param {FormData} record - The record.
+   * @returns {string} The escaped value, or a dash if it is empty.
+   */
+
+  private formatValue(field: FieldSchema, record: FormData): string {
+    const value = String(record[field.name] ?? "");
+    if (value === "") {
+      return "—";
+    }
+    if (field.name === "phone") {
+      return escapeHtml(formatPhone(value, record.country));
+    }
+    return escapeHtml(field.type === "date" ? formatDate(value) : value);
+  }
+
+  /**
+   * Opens the merge view of a group.
+   * @param {DuplicateGroup} group - The group to merge.
+   */
+
+  private review(group: DuplicateGroup): void {
+    this.activeGroup = group;
+    this.selectSurvivor(group.records[0].id);
+    this.render();
+  }
+
+  /**
+   * Chooses the record to keep and preselects its values. Fields it leaves
+   * empty take the value of the most recently saved record that has one.
+   * @param {string} id - The ID of the record to keep.
+   */
+
+  private selectSurvivor(id: string): void {
+    if (!this.activeGroup) {
+      return;
+    }
+    const records = this.activeGroup.records;
+    const survivor = records.find((record) => record.id === id) ?? records[0];
+    this.survivorId = survivor.id;
+    this.sources.clear();
+    formSchema.forEach((field) => {
+      const source = [survivor, ...records].find(
+        (record) => String(record[field.name] ?? "") !== ""
+      );
+      this.sources.set(field.name, (source ?? survivor).id);
+    });
+  }
+
+  /**
+   * Builds the values of the merged record from the chosen sources.
+   * Derived fields, such as the age, are computed again from the chosen
+   * values so the merged record stays consistent.
+   * @param {DuplicateGroup} group - The group being merged.
+   * @returns {RecordValues} The merged values.
+   */
+
+  private buildMergedValues(group: DuplicateGroup): RecordValues {
+    const rawValues: Partial<Record<string, string>> = {};
+    formSchema.forEach((field) => {
+      const source = group.records.find(
+        (record) => record.id === this.sources.get(field.name)
+      );
+      rawValues[field.name] = String(source?.[field.name] ?? "");
+    });
+    formSchema.forEach((field) => {
+      const derived = field.derive?.(rawValues);
+      if (derived !== undefined && derived !== null) {
+        rawValues[field.name] = derived;
+      }
+    });
+    return buildRecordValues((name) => rawValues[name] ?? "");
+  }
+
+  /**
+   * Adds delegated event listeners for the dialog controls.
+   */
+
+  private addEventListeners(): void {
+    this.element.addEventListener("change", (e) => {
+      const target = e.target as HTMLInputElement;
+      if (target.name === "mergeSurvivor") {
+        this.selectSurvivor(target.value);
+        this.render();
+      } else if (target.name.startsWith("merge-")) {
+        this.sources.set(
+          target.getAttribute("data-field") as keyof RecordValues,
+          target.value
+        );
+      }
+    });
+
+    this.element.addEventListener("click", (e) => {
+      const target = e.target as HTMLElement;
+      const action = target.closest("[data-action]")?.getAttribute("data-action");
+      if (action === "close") {
+        this.close();
+      } else if (action === "review") {
+        const index = Number.parseInt(
+          target.closest("[data-group]")?.getAttribute("data-group") ?? "",
+          10
+        );
+        if (this.groups[index]) {
+          this.review(this.groups[index]);
+        }
+      } else if (action === "back") {
+        this.activeGroup = null;
+        this.render();
+      } else if (action === "merge" && this.activeGroup) {
+        const group = this.activeGroup;
+        this.eventEmitter.emit("mergeRecords", {
+          survivorId: this.survivorId,
+          discardedIds: group.records
+            .map((record) => record.id)
+            .filter((id) => id !== this.survivorId),
+          values: this.buildMergedValues(group),
+        });
+      }
+    });
+  }
+}
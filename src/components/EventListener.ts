@@ -1,55 +1,117 @@
-import type { EventListener } from "./Interfaces.js";
+import type {
+  EventArgs,
+  EventCallback,
+  EventListener,
+  Unsubscribe,
+  WildcardCallback,
+} from "./Interfaces.js";
+
+/**
+ * Event name used to register a listener for every event.
+ */
+const WILDCARD = "*";
 
 /**
  * Implements an event emitter that allows adding, emitting, and removing event listeners.
+ * Event names and payloads are checked at compile time against the `Events` map.
+ * A listener that throws is reported to the console without stopping the others.
+ * @template Events - Map of event names to payload types.
  * @implements {EventListener}
  */
 
-export class EventEmitter implements EventListener {
+export class EventEmitter<Events> implements EventListener<Events> {
   /**
-   * Stores event listeners for various event names.
+   * Stores event listeners for various event names, including the wildcard.
    * @private
-   * @type {{ [eventName: string]: ((...args: unknown[]) => void)[] }}
+   * @type {Map<PropertyKey, ((...args: any[]) => void)[]>}
    */
-  private listeners: { [eventName: string]: ((...args: unknown[]) => void)[] } = {};
+  private listeners = new Map<PropertyKey, ((...args: any[]) => void)[]>();
 
   /**
-   * Registers a listener callback for a specific event name.
-   * @param {string} eventName - The name of the event to listen for.
-   * @param {(...args: unknown[]) => void} callback - The callback function to execute when the event is emitted.
+   * Registers a listener callback for a specific event name,
+   * or for every event when the name is `"*"`.
+   * @param {keyof Events | "*"} eventName - The name of the event to listen for.
+   * @param callback - The callback function to execute when the event is emitted.
+   * Wildcard callbacks receive the event name followed by the payload.
+   * @returns {Unsubscribe} A function that removes the listener.
    */
 
-  on(eventName: string, callback: (...args: any[]) => void): void {
-    if (!this.listeners[eventName]) {
-      this.listeners[eventName] = [];
-    }
-    this.listeners[eventName].push(callback);
+  on(eventName: typeof WILDCARD, callback: WildcardCallback<Events>): Unsubscribe;
+  on<K extends keyof Events>(
+    eventName: K,
+    callback: EventCallback<Events[K]>
+  ): Unsubscribe;
+  on(eventName: PropertyKey, callback: (...args: any[]) => void): Unsubscribe {
+    const eventListeners = this.listeners.get(eventName) ?? [];
+    this.listeners.set(eventName, [...eventListeners, callback]);
+    return () => this.remove(eventName, callback);
   }
+
   /**
-   * Emits an event and invokes all listener callbacks associated with the event.
-   * @param {string} eventName - The name of the event to emit.
-   * @param {...unknown[]} args - Additional arguments to pass to the listener callbacks.
+   * Registers a listener callback that is removed after it runs once.
+   * @param {keyof Events} eventName - The name of the event to listen for.
+   * @param callback - The callback function to execute when the event is emitted.
+   * @returns {Unsubscribe} A function that removes the listener before it has run.
    */
 
-  emit(eventName: string, ...args: unknown[]): void {
-    const eventListeners = this.listeners[eventName];
-    if (eventListeners) {
-      eventListeners.forEach((callback) => callback(...args));
-    }
+  once<K extends keyof Events>(
+    eventName: K,
+    callback: EventCallback<Events[K]>
+  ): Unsubscribe {
+    const unsubscribe = this.on(eventName, ((...args: EventArgs<Events[K]>) => {
+      unsubscribe();
+      callback(...args);
+    }) as EventCallback<Events[K]>);
+    return unsubscribe;
+  }
+
+  /**
+   * Emits an event and invokes all listener callbacks associated with the event,
+   * followed by the wildcard listeners.
+   * @param {keyof Events} eventName - The name of the event to emit.
+   * @param args - The event payload, if the event has one.
+   */
+
+  emit<K extends keyof Events>(eventName: K, ...args: EventArgs<Events[K]>): void {
+    const eventListeners = this.listeners.get(eventName) ?? [];
+    const wildcardListeners = this.listeners.get(WILDCARD) ?? [];
+
+    eventListeners.forEach((callback) =>
+      this.invoke(eventName, () => callback(...args))
+    );
+    wildcardListeners.forEach((callback) =>
+      this.invoke(eventName, () => callback(eventName, ...args))
+    );
   }
 
   /**
   * Removes a specific listener callback for an event.
-  * @param {string} eventName - The name of the event.
-  * @param {(...args: unknown[]) => void} callback - The callback function to remove.
+  * @param {PropertyKey} eventName - The name of the event, or `"*"`.
+  * @param {(...args: any[]) => void} callback - The callback function to remove.
   */
 
-  remove(eventName: string, callback: (...args: unknown[]) => void): void {
-    const eventListeners = this.listeners[eventName];
+  remove(eventName: PropertyKey, callback: (...args: any[]) => void): void {
+    const eventListeners = this.listeners.get(eventName);
     if (eventListeners) {
-      this.listeners[eventName] = eventListeners.filter(
-        (listener) => listener !== callback
+      this.listeners.set(
+        eventName,
+        eventListeners.filter((listener) => listener !== callback)
       );
     }
   }
+
+  /**
+   * Runs a listener, reporting any error it throws instead of propagating it.
+   * @param {PropertyKey} eventName - The name of the event being emitted.
+   * @param {() => void} run - Invokes the listener.
+   * @private
+   */
+
+  private invoke(eventName: PropertyKey, run: () => void): void {
+    try {
+      run();
+    } catch (error) {
+      console.error(`Listener for "${String(eventName)}" failed`, error);
+    }
+  }
 }
@@ -0,0 +1,308 @@
+import { BaseComponent } from "./BaseComponent.ts";
+import { FocusTrap } from "./FocusTrap.ts";
+import type { FormData } from "./Interfaces.ts";
+import { Notification } from "./Notification.ts";
+import { toCsv } from "./csv.ts";
+import { formSchema, getFieldLabel } from "./formSchema.ts";
+import { t } from "./i18n.ts";
+import { downloadFile } from "./utils.ts";
+
+/**
+ * Record fields that can be included in an export.
+ */
+type ExportField = Exclude<keyof FormData, "history">;
+
+/**
+ * File formats offered by the export dialog.
+ */
+type ExportFormat = "csv" | "json";
+
+/**
+ * The record sets the export dialog can choose from.
+ */
+export interface ExportSources {
+  /** All active records. */
+  records: FormData[];
+  /** The active records matching the table's current search and filters. */
+  visibleRecords: FormData[];
+  /** The records selected in the table. */
+  selectedRecords: FormData[];
+  /** The records in the trash. */
+  deletedRecords: FormData[];
+}
+
+/**
+ * Exportable fields in column order.
+ */
+const EXPORT_FIELDS: ExportField[] = [
+  "id",
+  ...formSchema.map((field) => field.name),
+  "timeStamp",
+];
+
+/**
+ * Returns the column header of an exportable field in the current language.
+ * @param field - The field.
+ * @returns The column header.
+ */
+
+function getExportLabel(field: ExportField): string {
+  if (field === "id") {
+    return t("export.id");
+  }
+  return field === "timeStamp" ? t("table.timestamp") : getFieldLabel(field);
+}
+
+/**
+ * Lets the user export active or deleted records to CSV or JSON,
+ * optionally limited to the current table view and a subset of columns.
+ * @extends BaseComponent
+ */
+
+export class ExportComponent extends BaseComponent {
+  private focusTrap: FocusTrap;
+  private sources: ExportSources = {
+    records: [],
+    visibleRecords: [],
+    selectedRecords: [],
+    deletedRecords: [],
+  };
+
+  /**
+   * Constructs the ExportComponent.
+   * @param {string} elementId - The ID of the DOM element hosting the export dialog.
+   */
+
+  constructor(elementId: string) {
+    super(elementId);
+    this.focusTrap = new FocusTrap(this.element, () => this.close());
+    this.addEventListeners();
+  }
+
+  /**
+   * Opens the export dialog for the given record sets. The selected records
+   * are preselected when there are any, otherwise the current table view.
+   * @param {ExportSources} sources - The records available for export.
+   */
+
+  open(sources: ExportSources): void {
+    this.focusTrap.activate();
+    this.sources = sources;
+    this.render();
+  }
+
+  /**
+   * Closes the export dialog.
+   */
+
+  close(): void {
+    this.element.innerHTML = "";
+    this.focusTrap.deactivate();
+  }
+
+  /**
+   * Renders the export dialog.
+   */
+
+  render(): void {
+    const { records, visibleRecords, selectedRecords, deletedRecords } =
+      this.sources;
+    const hasSelection = selectedRecords.length > 0;
+    const columns = EXPORT_FIELDS.map(
+      (field) => `
+        <label>
+          <input type="checkbox" name="exportColumn" value="${field}" checked />
+          ${getExportLabel(field)}
+        </label>
+      `
+    ).join("");
+
+    this.element.innerHTML = `
+      <style>
+        .export-modal {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          background-color: rgba(0, 0, 0, 0.5);
+          display: flex;
+          justify-content: center;
+          align-items: center;
+          z-index: 1000;
+        }
+        .export-content {
+          background: #fff;
+          padding: 30px;
+          border-radius: 8px;
+          box-shadow: 0 4px 15px rgba(0, 0, 0, 0.2);
+          width: 500px;
+          max-width: 95%;
+          max-height: 90vh;
+          overflow-y: auto;
+        }
+        .export-content h2 {
+          margin-bottom: 15px;
+          color: #0062cc;
+        }
+        .export-content fieldset {
+          border: 1px solid #e0e0e0;
+          border-radius: 4px;
+          padding: 10px 15px;
+          margin-bottom: 15px;
+        }
+        .export-content legend {
+          font-weight: bold;
+          padding: 0 5px;
+        }
+        .export-content label {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          font-weight: normal;
+        }
+        .export-content input[type="radio"],
+        .export-content input[type="checkbox"] {
+          width: auto;
+        }
+        .export-columns {
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+        }
+        .export-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: 10px;
+        }
+      </style>
+      <div class="export-modal">
+        <div class="export-content" role="dialog" aria-modal="true" aria-labelledby="exportTitle">
+          <h2 id="exportTitle">${t("export.title")}</h2>
+          <fieldset>
+            <legend>${t("export.records")}</legend>
+            ${hasSelection
+        ? `<label>
+              <input type="radio" name="exportSource" value="selected" checked />
+              ${t("export.selectedRecords", { count: selectedRecords.length })}
+            </label>`
+        : ""
+      }
+            <label>
+              <input type="radio" name="exportSource" value="visible" ${hasSelection ? "" : "checked"} />
+              ${t("export.visibleRecords", { count: visibleRecords.length })}
+            </label>
+            <label>
+              <input type="radio" name="exportSource" value="all" />
+              ${t("export.allRecords", { count: records.length })}
+            </label>
+            <label>
+              <input type="radio" name="exportSource" value="deleted" />
+              ${t("export.deletedRecords", { count: deletedRecords.length })}
+            </label>
+          </fieldset>
+          <fieldset>
+            <legend>${t("export.columns")}</legend>
+            <div class="export-columns">${columns}</div>
+          </fieldset>
+          <fieldset>
+            <legend>${t("export.format")}</legend>
+            <label>
+              <input type="radio" name="exportFormat" value="csv" checked />
+              CSV
+            </label>
+            <label>
+              <input type="radio" name="exportFormat" value="json" />
+              JSON
+            </label>
+          </fieldset>
+          <div class="export-actions">
+            <button type="button" data-action="download">${t("export.download")}</button>
+            <button type="button" data-action="cancel">${t("common.cancel")}</button>
+          </div>
+        </div>
+      </div>
+    `;
+    this.focusTrap.afterRender();
+  }
+
+  /**
+   * Adds delegated event listeners for the dialog controls.
+   */
+
+  private addEventListeners(): void {
+    this.element.addEventListener("click", (e) => {
+      const action = (e.target as HTMLElement).getAttribute("data-action");
+      if (action === "download") {
+        this.download();
+      } else if (action === "cancel") {
+        this.close();
+      }
+    });
+  }
+
+  /**
+   * Builds the export file from the chosen options and starts the download.
+   */
+
+  private download(): void {
+    const source = this.getCheckedValue("exportSource");
+    const format = this.getCheckedValue("exportFormat") as ExportFormat;
+    const fields = Array.from(
+      this.element.querySelectorAll<HTMLInputElement>(
+        'input[name="exportColumn"]:checked'
+      )
+    ).map((input) => input.value as ExportField);
+
+    if (fields.length === 0) {
+      Notification.show(t("export.noColumns"));
+      return;
+    }
+
+    const records =
+      source === "deleted"
+        ? this.sources.deletedRecords
+        : source === "all"
+          ? this.sources.records
+          : source === "selected"
+            ? this.sources.selectedRecords
+            : this.sources.visibleRecords;
+    const baseName = `${source === "deleted" ? "trash" : "records"}-${new Date()
+      .toISOString()
+      .slice(0, 10)}`;
+
+    if (format === "json") {
+      const rows = records.map((record) =>
+        Object.fromEntries(fields.map((field) => [field, record[field]]))
+      );
+      downloadFile(
+        JSON.stringify(rows, null, 2),
+        `${baseName}.json`,
+        "application/json"
+      );
+    } else {
+      const header = fields.map(getExportLabel);
+      const rows = records.map((record) => fields.map((field) => record[field]));
+      downloadFile(
+        toCsv([header, ...rows]),
+        `${baseName}.csv`,
+        "text/csv;charset=utf-8"
+      );
+    }
+
+    Notification.show(t("export.done", { count: records.length }));
+    this.close();
+  }
+
+  /**
+   * Returns the value of the checked radio button in a group.
+   * @param {string} name - The radio group name.
+   * @returns {string} The checked value, or an empty string.
+   */
+
+  private getCheckedValue(name: string): string {
+    const input = this.element.querySelector<HTMLInputElement>(
+      `input[name="${name}"]:checked`
+    );
+    return input ? input.value : "";
+  }
+}
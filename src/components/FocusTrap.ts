@@ -0,0 +1,139 @@
+/**
+ * Matches the elements that can take keyboard focus.
+ */
+export const FOCUSABLE_SELECTOR = [
+  "a[href]",
+  "button:not([disabled])",
+  'input:not([disabled]):not([type="hidden"])',
+  "select:not([disabled])",
+  "textarea:not([disabled])",
+  '[tabindex]:not([tabindex="-1"])',
+].join(", ");
+
+/**
+ * Lists the visible elements of a container that can take keyboard focus,
+ * in document order.
+ * @param {HTMLElement} container - The container to search.
+ * @returns {HTMLElement[]} The focusable elements.
+ */
+
+export function getFocusableElements(container: HTMLElement): HTMLElement[] {
+  return Array.from(
+    container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)
+  ).filter((element) => element.getClientRects().length > 0);
+}
+
+/**
+ * Keeps keyboard focus inside a dialog while it is open. Tab and Shift+Tab
+ * cycle through the dialog's controls, Escape closes it, and the focus
+ * returns to the element that opened it once it closes. Dialogs that are
+ * rendered again while open get the focus back on the control at the same
+ * position.
+ */
+
+export class FocusTrap {
+  private element: HTMLElement;
+  private onEscape: () => void;
+  private isActive = false;
+  private opener: HTMLElement | null = null;
+  private focusIndex = -1;
+
+  /**
+   * Constructs the FocusTrap.
+   * @param {HTMLElement} element - The element hosting the dialog.
+   * @param {() => void} onEscape - Closes the dialog when Escape is pressed.
+   */
+
+  constructor(element: HTMLElement, onEscape: () => void) {
+    this.element = element;
+    this.onEscape = onEscape;
+    this.element.addEventListener("keydown", (e) => this.handleKeydown(e));
+    this.element.addEventListener("focusin", (e) => {
+      const index = getFocusableElements(this.element).indexOf(
+        e.target as HTMLElement
+      );
+      if (this.isActive && index !== -1) {
+        this.focusIndex = index;
+      }
+    });
+  }
+
+  /**
+   * Starts trapping the focus, remembering the element that had it so it
+   * can be given back. Does nothing if the trap is already active.
+   */
+
+  activate(): void {
+    if (this.isActive) {
+      return;
+    }
+    this.isActive = true;
+    this.focusIndex = -1;
+    this.opener =
+      document.activeElement instanceof HTMLElement ? document.activeElement : null;
+  }
+
+  /**
+   * Moves the focus into the dialog after it has been rendered, unless it is
+   * already there: to the control that had it before, or to the first one.
+   */
+
+  afterRender(): void {
+    if (!this.isActive || this.element.contains(document.activeElement)) {
+      return;
+    }
+    const focusable = getFocusableElements(this.element);
+    const index = Math.min(Math.max(this.focusIndex, 0), focusable.length - 1);
+    focusable[index]?.focus();
+  }
+
+  /**
+   * Stops trapping the focus and gives it back to the element that opened
+   * the dialog, if that element is still on the page.
+   */
+
+  deactivate(): void {
+    if (!this.isActive) {
+      return;
+    }
+    this.isActive = false;
+    if (this.opener?.isConnected) {
+      this.opener.focus();
+    }
+    this.opener = null;
+  }
+
+  /**
+   * Closes the dialog on Escape and wraps Tab around its first and last controls.
+   * @param {KeyboardEvent} e - The keydown event.
+   */
+
+  private handleKeydown(e: KeyboardEvent): void {
+    if (!this.isActive) {
+      return;
+    }
+    if (e.key === "Escape") {
+      e.preventDefault();
+      e.stopPropagation();
+      this.onEscape();
+      return;
+    }
+    if (e.key !== "Tab") {
+      return;
+    }
+    const focusable = getFocusableElements(this.element);
+    if (focusable.length === 0) {
+      e.preventDefault();
+      return;
+    }
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  }
+}
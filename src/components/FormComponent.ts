@@ -1,84 +1,76 @@
 import { BaseComponent } from "./BaseComponent.ts";
 import type { EventEmitter } from "./EventListener.ts";
-import { type FormData, type Country, type State } from "./Interfaces.ts";
-import { validateField } from "./validation.ts";
+import { type AppEvents, type FormData, type LocationProvider } from "./Interfaces.ts";
+import { Combobox, type ComboboxOption } from "./Combobox.ts";
+import {
+  hasAsyncRules,
+  validateField,
+  validateFieldAsync,
+} from "./validation.ts";
+import {
+  buildRecordValues,
+  formSchema,
+  getDependentFields,
+  getFieldLabel,
+  type FieldSchema,
+} from "./formSchema.ts";
+import { t } from "./i18n.ts";
+import { escapeHtml } from "./utils.ts";
 
 /**
  * FormComponent class manages rendering, validation, and submission of a dynamic form.
+ * The fields are generated from the form schema.
  * @extends BaseComponent
  */
 export class FormComponent extends BaseComponent {
-  private eventEmitter: EventEmitter;
-  private countries: Country[];
+  private eventEmitter: EventEmitter<AppEvents>;
+  private locationProvider: LocationProvider;
+  private comboboxes = new Map<string, Combobox>();
+  private renderCount = 0;
   private isEditMode = false;
   private editId: string | null = null;
+  private editData: FormData | undefined;
   private errors: { [key: string]: string } = {};
+  private pendingChecks = new Map<string, AbortController>();
 
   /**
   * Constructs the FormComponent.
   * @param {string} elementId - The ID of the DOM element to attach the form.
   * @param {EventEmitter} eventEmitter - The event emitter for handling events.
+  * @param {LocationProvider} locationProvider - The source of the countries, states and cities.
   */
 
-  constructor(elementId: string, eventEmitter: EventEmitter) {
+  constructor(
+    elementId: string,
+    eventEmitter: EventEmitter<AppEvents>,
+    locationProvider: LocationProvider
+  ) {
     super(elementId);
     this.eventEmitter = eventEmitter;
-    this.countries = this.getCountries();
+    this.locationProvider = locationProvider;
   }
   /**
-   * Retrieves a list of countries with their states and cities.
-   * @returns {Country[]} - List of countries.
+   * Creates a type-to-search combobox for choosing one of a list of values.
+   * @param {string} id - The ID for the combobox input.
+   * @param {string} label - The label for the combobox.
+   * @returns {string} - The generated HTML string for the combobox.
    */
 
-  private getCountries(): Country[] {
-    return [
-      {
-        name: "INDIA",
-        states: [
-          { name: "Uttar Pradesh", cities: ["Prayagraj", "Ayodhya"] },
-          { name: "Odisha", cities: ["Puri", "Bhubaneswar"] },
-        ],
-      },
-      {
-        name: "USA",
-        states: [
-          { name: "California", cities: ["Los Angeles", "San Francisco"] },
-          { name: "New York", cities: ["New York City", "Buffalo"] },
-        ],
-      },
-      {
-        name: "Canada",
-        states: [
-          { name: "Ontario", cities: ["Toronto", "Ottawa"] },
-          { name: "Quebec", cities: ["Montreal", "Quebec City"] },
-        ],
-      },
-    ];
-  }
-  /**
-   * Creates a dropdown HTML element with specified options.
-   * @param {string} id - The ID for the dropdown element.
-   * @param {string[]} options - The options for the dropdown.
-   * @param {string} label - The label for the dropdown.
-   * @returns {string} - The generated HTML string for the dropdown.
-   */
-
-  private createDropdown(id: string, options: string[], label: string): string {
-    const optionsHtml = options
-      .map((option) => `<option value="${option}">${option}</option>`)
-      .join("");
+  private createCombobox(id: string, label: string): string {
     return `
     <div class="form-group">
       <label for="${id}">${label}</label>
       <div class="input-wrapper">
-        <select id="${id}" name="${id}">
-          <option value="">Select ${label}</option>
-          ${optionsHtml}
-        </select>
-        <span class="validation-icon error" data-field="${id}">!</span>
-        <span class="validation-icon success" data-field="${id}">✓</span>
+        <input type="text" id="${id}" name="${id}" role="combobox" autocomplete="off"
+          aria-autocomplete="list" aria-expanded="false" aria-controls="${id}-listbox"
+          aria-describedby="${id}-error"
+          placeholder="${t("form.searchPlaceholder", { label })}">
+        <ul id="${id}-listbox" class="combobox-listbox" role="listbox" hidden></ul>
+        <span class="validation-icon error" data-field="${id}" aria-hidden="true">!</span>
+        <span class="validation-icon success" data-field="${id}" aria-hidden="true">✓</span>
+        <span class="validation-icon pending" data-field="${id}" aria-hidden="true">…</span>
       </div>
-      <span class="error-message" data-field="${id}"></span>
+      <span class="error-message" id="${id}-error" data-field="${id}"></span>
     </div>
   `;
   }
@@ -102,29 +94,72 @@ export class FormComponent extends BaseComponent {
     <div class="form-group">
       <label for="${id}">${label}</label>
       <div class="input-wrapper">
-        <input type="${type}" id="${id}" name="${id}" value="${value}">
-        <span class="validation-icon error" data-field="${id}">!</span>
-        <span class="validation-icon success" data-field="${id}">✓</span>
+        <input type="${type}" id="${id}" name="${id}" value="${escapeHtml(value)}" aria-describedby="${id}-error">
+        <span class="validation-icon error" data-field="${id}" aria-hidden="true">!</span>
+        <span class="validation-icon success" data-field="${id}" aria-hidden="true">✓</span>
+        <span class="validation-icon pending" data-field="${id}" aria-hidden="true">…</span>
       </div>
-      <span class="error-message" data-field="${id}"></span>
+      <span class="error-message" id="${id}-error" data-field="${id}"></span>
     </div>
   `;
   }
 
+  /**
+   * Creates the HTML for a field from its schema.
+   * Select widgets become comboboxes whose options are loaded from the
+   * location provider after rendering.
+   * @param {FieldSchema} field - The field schema.
+   * @param {FormData} [editData] - The record being edited, if any.
+   * @param {Partial<Record<string, string>>} [values] - Values entered earlier, which take precedence.
+   * @returns {string} - The generated HTML string for the field.
+   */
+
+  private createField(
+    field: FieldSchema,
+    editData?: FormData,
+    values?: Partial<Record<string, string>>
+  ): string {
+    if (field.widget === "select") {
+      return this.createCombobox(field.name, getFieldLabel(field.name));
+    }
+    const value =
+      values?.[field.name] ?? (editData ? editData[field.name] : field.defaultValue);
+    return this.createInputField(
+      field.name,
+      getFieldLabel(field.name),
+      field.type,
+      value === undefined || value === null || Number.isNaN(value)
+        ? ""
+        : value.toString()
+    );
+  }
+
+  /**
+   * Returns the ID of the record the form is editing.
+   * @returns {string | null} The record ID, or `null` when adding a record.
+   */
+
+  getEditId(): string | null {
+    return this.editId;
+  }
+
   /**
    * Renders the form to the DOM.
    * @param {FormData} [editData] - The data to populate the form for editing.
+   * @param {Partial<Record<string, string>>} [values] - Values entered earlier, shown instead of the record's.
    */
 
-  render(editData?: FormData): void {
+  render(editData?: FormData, values?: Partial<Record<string, string>>): void {
     this.isEditMode = !!editData;
     this.editId = editData?.id || null;
+    this.editData = editData;
+    this.renderCount++;
+    this.pendingChecks.forEach((controller) => controller.abort());
+    this.pendingChecks.clear();
 
-    const countryDropdown = this.createDropdown(
-      "country",
-      this.countries.map((country) => country.name),
-      "Country"
-    );
+    const fields = formSchema
+      .map((field) => this.createField(field, editData, values))
+      .join("");
 
     this.element.innerHTML = `
       <style>
@@ -156,6 +191,45 @@ export class FormComponent extends BaseComponent {
           font-size: 16px;
           transition: all 0.3s ease;
         }
+        input[readonly] {
+          background-color: #e9ecef;
+        }
+        .combobox-listbox {
+          position: absolute;
+          top: 100%;
+          left: 0;
+          right: 0;
+          z-index: 10;
+          max-height: 220px;
+          overflow-y: auto;
+          margin: 2px 0 0;
+          padding: 0;
+          list-style: none;
+          background: #fff;
+          border: 1px solid #ced4da;
+          border-radius: 4px;
+          box-shadow: 0 4px 10px rgba(0, 0, 0, 0.1);
+        }
+        .combobox-listbox li {
+          padding: 8px 12px;
+          cursor: pointer;
+        }
+        .combobox-listbox li.active,
+        .combobox-listbox li:hover {
+          background-color: #e9f2ff;
+        }
+        .combobox-listbox li[aria-selected="true"] {
+          font-weight: bold;
+        }
+        .combobox-listbox .combobox-empty {
+          color: #6c757d;
+          cursor: default;
+        }
+        .combobox-note {
+          color: #6c757d;
+          font-size: 13px;
+          font-weight: normal;
+        }
         input:focus, select:focus {
           outline: none;
           border-color: #80bdff;
@@ -176,6 +250,9 @@ export class FormComponent extends BaseComponent {
         .validation-icon.success {
           color: #28a745;
         }
+        .validation-icon.pending {
+          color: #5a6268;
+        }
         .error-message {
           color: #dc3545;
           font-size: 14px;
@@ -186,7 +263,7 @@ export class FormComponent extends BaseComponent {
         }
         button[type="submit"] {
           width: 100%;
-          background-color: #007bff;
+          background-color: #0062cc;
           color: white;
           border: none;
           padding: 12px 20px;
@@ -210,6 +287,13 @@ export class FormComponent extends BaseComponent {
         .form-group.success select {
           border-color: #28a745;
         }
+        .form-group.pending .error-message {
+          color: #5a6268;
+        }
+        button[type="submit"]:disabled {
+          cursor: wait;
+          opacity: 0.65;
+        }
         @keyframes shake {
           0%, 100% { transform: translateX(0); }
           25% { transform: translateX(-10px); }
@@ -225,38 +309,60 @@ export class FormComponent extends BaseComponent {
         }
       </style>
       <form id="dataForm" class="form-container">
-        ${this.createInputField("name", "Name", "text", editData?.name || "")}
-        ${this.createInputField("phone", "Phone", "tel", editData?.phone || "")}
-        ${this.createInputField(
-      "email",
-      "Email",
-      "email",
-      editData?.email || ""
-    )}
-        ${this.createInputField(
-      "dob",
-      "Date of Birth",
-      "date",
-      editData?.dob || ""
-    )}
-        ${this.createInputField(
-      "age",
-      "Age",
-      "number",
-      editData?.age?.toString() || ""
-    )}
-        ${countryDropdown}
-        ${this.createDropdown("state", [], "State")}
-        ${this.createDropdown("city", [], "City")}
-        ${this.createInputField("zip", "ZIP", "text", editData?.zip || "")}
-        <button type="submit">${this.isEditMode ? "Update" : "Submit"}</button>
+        ${fields}
+        <button type="submit">${t(this.isEditMode ? "form.update" : "form.submit")}</button>
       </form>
+      <div id="formStatus" class="visually-hidden" role="status" aria-live="polite"></div>
     `;
 
+    this.comboboxes.clear();
+    formSchema
+      .filter((field) => field.widget === "select")
+      .forEach(({ name }) => {
+        const input = this.element.querySelector(`#${name}`) as HTMLInputElement;
+        const listbox = this.element.querySelector(
+          `#${name}-listbox`
+        ) as HTMLElement;
+        this.comboboxes.set(name, new Combobox(input, listbox));
+      });
+
     this.addEventListeners();
 
-    if (editData) {
-      this.populateDropdowns(editData);
+    this.populateDropdowns(
+      values
+        ? {
+          country: values.country ?? "",
+          state: values.state ?? "",
+          city: values.city ?? "",
+        }
+        : editData
+    );
+    formSchema.forEach((field) => this.applyDerivedValue(field));
+  }
+
+  /**
+   * Renders the form again in the current language, keeping the values
+   * entered so far and checking again the fields that show an error.
+   */
+
+  refresh(): void {
+    const values = this.getFormValues();
+    const invalidFields = Object.keys(this.errors);
+    this.errors = {};
+    this.render(this.editData, values);
+    invalidFields.forEach((name) => this.validateField(name));
+  }
+
+  /**
+   * Checks fields so their errors are shown, and moves the focus to the
+   * first of them.
+   * @param {string[]} fieldNames - The names of the fields to check.
+   */
+
+  showErrors(fieldNames: string[]): void {
+    fieldNames.forEach((name) => this.validateField(name));
+    if (fieldNames.length > 0) {
+      (this.element.querySelector(`#${fieldNames[0]}`) as HTMLInputElement).focus();
     }
   }
 
@@ -266,43 +372,29 @@ export class FormComponent extends BaseComponent {
 
   private addEventListeners(): void {
     const form = this.element.querySelector("#dataForm") as HTMLFormElement;
-    const countrySelect = this.element.querySelector(
+    const countryInput = this.element.querySelector(
       "#country"
-    ) as HTMLSelectElement;
-    const stateSelect = this.element.querySelector(
-      "#state"
-    ) as HTMLSelectElement;
-    const citySelect = this.element.querySelector("#city") as HTMLSelectElement;
+    ) as HTMLInputElement;
+    const stateInput = this.element.querySelector("#state") as HTMLInputElement;
+    const zipInput = this.element.querySelector("#zip") as HTMLInputElement;
 
     form.addEventListener("submit", this.handleSubmit.bind(this));
 
-    countrySelect.addEventListener(
+    countryInput.addEventListener(
       "change",
       this.handleCountryChange.bind(this)
     );
-    stateSelect.addEventListener("change", this.handleStateChange.bind(this));
-    citySelect.addEventListener("change", () => this.validateField("city"));
-
-    const phoneField = this.element.querySelector("#phone") as HTMLInputElement;
-    phoneField.addEventListener("input", () => {
-      this.validateField("phone");
-    });
-    [
-      "name",
-      "phone",
-      "email",
-      "dob",
-      "age",
-      "country",
-      "state",
-      "city",
-      "zip",
-    ].forEach((fieldName) => {
-      const field = this.element.querySelector(`#${fieldName}`) as
-        | HTMLInputElement
-        | HTMLSelectElement;
-      field.addEventListener("blur", () => this.validateField(fieldName));
-      field.addEventListener("input", () => this.validateField(fieldName));
+    stateInput.addEventListener("change", this.handleStateChange.bind(this));
+    zipInput.addEventListener("input", this.handlePostalCodeChange.bind(this));
+
+    formSchema.forEach(({ name, widget }) => {
+      const field = this.element.querySelector(`#${name}`) as HTMLInputElement;
+      // Comboboxes only change value when an option is chosen, not while typing.
+      field.addEventListener("blur", () => this.validateField(name));
+      field.addEventListener(widget === "select" ? "change" : "input", () => {
+        this.validateField(name);
+        this.updateDependentFields(name);
+      });
     });
 
     this.element.querySelectorAll(".validation-icon.error").forEach((icon) => {
@@ -316,26 +408,29 @@ export class FormComponent extends BaseComponent {
   }
 
   /**
-   * Handles form submission.
+   * Handles form submission once every field, including async checks, has been validated.
+   * The submit button is disabled while the checks run.
    * @param {Event} e - The submit event.
    */
 
-  private handleSubmit(e: Event): void {
+  private async handleSubmit(e: Event): Promise<void> {
     e.preventDefault();
-    if (this.validateForm()) {
-      const formData = new FormData(e.target as HTMLFormElement);
+    const form = e.target as HTMLFormElement;
+    const submitButton = form.querySelector(
+      'button[type="submit"]'
+    ) as HTMLButtonElement;
+    submitButton.disabled = true;
+    const isValid = await this.validateForm();
+    submitButton.disabled = false;
+    if (!isValid && form.isConnected) {
+      this.focusFirstError();
+    }
+    if (isValid && form.isConnected) {
+      const formData = new FormData(form);
       const data: FormData = {
         id: this.editId || Date.now().toString(),
-        name: formData.get("name") as string,
-        phone: formData.get("phone") as string,
-        email: formData.get("email") as string,
-        dob: formData.get("dob") as string,
-        age: Number.parseInt(formData.get("age") as string),
-        country: formData.get("country") as string,
-        state: formData.get("state") as string,
-        city: formData.get("city") as string,
-        zip: formData.get("zip") as string,
-        restoreData: [],
+        ...buildRecordValues((name) => (formData.get(name) as string) ?? ""),
+        history: [],
         timeStamp: new Date().toISOString(),
       };
 
@@ -344,159 +439,334 @@ export class FormComponent extends BaseComponent {
       } else {
         this.eventEmitter.emit("formSubmit", data);
       }
-      (e.target as HTMLFormElement).reset();
+      form.reset();
       this.isEditMode = false;
       this.editId = null;
       this.render();
     }
   }
 
-  private handleCountryChange(): void {
-    const countrySelect = this.element.querySelector(
-      "#country"
-    ) as HTMLSelectElement;
-    const citySelect = this.element.querySelector("#city") as HTMLSelectElement;
+  /**
+   * Loads the states of the chosen country and clears the state and city.
+   */
 
-    const selectedCountry = this.countries.find(
-      (country) => country.name === countrySelect.value
-    );
-    if (selectedCountry) {
-      this.updateStateDropdown(selectedCountry.states);
-      citySelect.innerHTML = '<option value="">Select City</option>';
+  private async handleCountryChange(): Promise<void> {
+    const country = this.getFieldValue("country");
+    this.setLocation("state", "");
+    this.setLocation("city", "");
+    this.setLocationOptions("city", []);
+    const renderCount = this.renderCount;
+    const states = country ? await this.locationProvider.getStates(country) : [];
+    if (renderCount === this.renderCount && country === this.getFieldValue("country")) {
+      this.setLocationOptions("state", states);
     }
-    this.validateField("country");
   }
 
-  private handleStateChange(): void {
-    const countrySelect = this.element.querySelector(
-      "#country"
-    ) as HTMLSelectElement;
-    const stateSelect = this.element.querySelector(
-      "#state"
-    ) as HTMLSelectElement;
+  /**
+   * Loads the cities of the chosen state and clears the city.
+   */
+
+  private async handleStateChange(): Promise<void> {
+    const country = this.getFieldValue("country");
+    const state = this.getFieldValue("state");
+    this.setLocation("city", "");
+    const renderCount = this.renderCount;
+    const cities = state
+      ? await this.locationProvider.getCities(country, state)
+      : [];
+    if (renderCount === this.renderCount && state === this.getFieldValue("state")) {
+      this.setLocationOptions("city", cities);
+    }
+  }
+
+  /**
+   * Looks up the entered postal code and fills in the country, state and
+   * city it belongs to. Nothing changes if the code is not in the dataset
+   * or was edited again before the lookup finished.
+   */
 
-    const selectedCountry = this.countries.find(
-      (country) => country.name === countrySelect.value
+  private async handlePostalCodeChange(): Promise<void> {
+    const zip = this.getFieldValue("zip");
+    const renderCount = this.renderCount;
+    const isCurrent = () =>
+      renderCount === this.renderCount && zip === this.getFieldValue("zip");
+
+    const location = await this.locationProvider.lookupPostalCode(zip);
+    if (!location || !isCurrent()) {
+      return;
+    }
+    const states = await this.locationProvider.getStates(location.country);
+    const cities = await this.locationProvider.getCities(
+      location.country,
+      location.state
     );
-    const selectedState = selectedCountry?.states.find(
-      (state) => state.name === stateSelect.value
+    if (!isCurrent()) {
+      return;
+    }
+
+    const countryChanged = location.country !== this.getFieldValue("country");
+    this.setLocationOptions("state", states);
+    this.setLocationOptions("city", cities);
+    this.setLocation("country", location.country);
+    this.setLocation("state", location.state);
+    this.setLocation("city", location.city);
+    ["country", "state", "city"].forEach((name) => this.validateField(name));
+    if (countryChanged) {
+      this.updateDependentFields("country");
+    }
+  }
+
+  /**
+   * Reads the current value of a field.
+   * @param {string} fieldName - The name of the field.
+   * @returns {string} The field value.
+   */
+
+  private getFieldValue(fieldName: string): string {
+    return (this.element.querySelector(`#${fieldName}`) as HTMLInputElement)
+      .value;
+  }
+
+  /**
+   * Sets the value of a location combobox without triggering its cascade.
+   * @param {string} fieldName - The name of the location field.
+   * @param {string} value - The new value.
+   */
+
+  private setLocation(fieldName: string, value: string): void {
+    this.comboboxes.get(fieldName)?.setValue(value);
+  }
+
+  /**
+   * Replaces the options of a location combobox. A saved value missing from
+   * the location data is kept as an extra option, so editing a record does
+   * not silently drop it.
+   * @param {string} fieldName - The name of the location field.
+   * @param {string[]} values - The values offered by the location provider.
+   * @param {string} [savedValue] - The value stored in the record being edited.
+   */
+
+  private setLocationOptions(
+    fieldName: string,
+    values: string[],
+    savedValue = ""
+  ): void {
+    const options: ComboboxOption[] = values.map((value) => ({ value }));
+    if (savedValue && !values.includes(savedValue)) {
+      options.unshift({ value: savedValue, note: t("form.noLongerListed") });
+    }
+    this.comboboxes.get(fieldName)?.setOptions(options);
+  }
+
+  /**
+   * Loads the location options and, when editing, restores the saved
+   * country, state and city. Results that arrive after the form has been
+   * rendered again are discarded.
+   * @param {Pick<FormData, "country" | "state" | "city">} [data] - The location of the record being edited, if any.
+   */
+
+  private async populateDropdowns(
+    data?: Pick<FormData, "country" | "state" | "city">
+  ): Promise<void> {
+    const renderCount = this.renderCount;
+    const isCurrent = () => renderCount === this.renderCount;
+
+    if (data) {
+      this.setLocation("country", data.country);
+      this.setLocation("state", data.state);
+      this.setLocation("city", data.city);
+    }
+    const countries = await this.locationProvider.getCountries();
+    if (!isCurrent()) {
+      return;
+    }
+    this.setLocationOptions("country", countries, data?.country);
+    if (!data) {
+      return;
+    }
+
+    const states = await this.locationProvider.getStates(data.country);
+    if (!isCurrent()) {
+      return;
+    }
+    this.setLocationOptions("state", states, data.state);
+    const cities = await this.locationProvider.getCities(
+      data.country,
+      data.state
     );
-    if (selectedState) {
-      this.updateCityDropdown(selectedState.cities);
+    if (isCurrent()) {
+      this.setLocationOptions("city", cities, data.city);
     }
-    this.validateField("state");
   }
 
-  private updateStateDropdown(states: State[]): void {
-    const stateSelect = this.element.querySelector(
-      "#state"
-    ) as HTMLSelectElement;
-    stateSelect.innerHTML = '<option value="">Select State</option>';
-    states.forEach((state) => {
-      const option = document.createElement("option");
-      option.value = state.name;
-      option.textContent = state.name;
-      stateSelect.appendChild(option);
+  /**
+   * Reads the current value of every field in the form.
+   * @returns {Partial<Record<string, string>>} The field values, keyed by field name.
+   */
+
+  private getFormValues(): Partial<Record<string, string>> {
+    const values: Partial<Record<string, string>> = {};
+    formSchema.forEach(({ name }) => {
+      const field = this.element.querySelector(`#${name}`) as HTMLInputElement;
+      values[name] = field.value;
     });
+    return values;
   }
 
-  private updateCityDropdown(cities: string[]): void {
-    const citySelect = this.element.querySelector("#city") as HTMLSelectElement;
-    citySelect.innerHTML = '<option value="">Select City</option>';
-    cities.forEach((city) => {
-      const option = document.createElement("option");
-      option.value = city;
-      option.textContent = city;
-      citySelect.appendChild(option);
-    });
+  /**
+   * Fills in a derived field from the other fields. The field is read-only
+   * while its value can be derived and editable otherwise.
+   * @param {FieldSchema} field - The field schema.
+   */
+
+  private applyDerivedValue(field: FieldSchema): void {
+    if (!field.derive) {
+      return;
+    }
+    const input = this.element.querySelector(
+      `#${field.name}`
+    ) as HTMLInputElement;
+    const value = field.derive(this.getFormValues());
+    input.readOnly = value !== null;
+    if (value !== null) {
+      input.value = value;
+    }
   }
 
-  private populateDropdowns(data: FormData): void {
-    const countrySelect = this.element.querySelector(
-      "#country"
-    ) as HTMLSelectElement;
-    const stateSelect = this.element.querySelector(
-      "#state"
-    ) as HTMLSelectElement;
-    const citySelect = this.element.querySelector("#city") as HTMLSelectElement;
-
-    countrySelect.value = data.country;
-    const selectedCountry = this.countries.find(
-      (country) => country.name === data.country
-    );
-    if (selectedCountry) {
-      this.updateStateDropdown(selectedCountry.states);
-      stateSelect.value = data.state;
-      const selectedState = selectedCountry.states.find(
-        (state) => state.name === data.state
-      );
-      if (selectedState) {
-        this.updateCityDropdown(selectedState.cities);
-        citySelect.value = data.city;
+  /**
+   * Derives and re-validates the fields that depend on a changed field.
+   * Empty dependent fields are not validated, so the user is not shown
+   * errors for fields they have not reached yet.
+   * @param {string} fieldName - The name of the changed field.
+   */
+
+  private updateDependentFields(fieldName: string): void {
+    getDependentFields(fieldName).forEach((field) => {
+      this.applyDerivedValue(field);
+      const input = this.element.querySelector(`#${field.name}`) as HTMLInputElement;
+      if (input.value !== "") {
+        this.validateField(field.name);
       }
+    });
+  }
+
+  /**
+   * Validates a field and shows the result next to it.
+   * Synchronous rules are checked immediately; async rules show a
+   * "Checking…" state until they finish. Starting a new check of the same
+   * field cancels the previous one, whose result is then discarded.
+   * @param {string} fieldName - The name of the field to validate.
+   * @returns {Promise<boolean>} Whether the field is valid. A cancelled check resolves to `false`.
+   */
+
+  private async validateField(fieldName: string): Promise<boolean> {
+    const field = this.element.querySelector(`#${fieldName}`) as HTMLInputElement;
+    this.pendingChecks.get(fieldName)?.abort();
+    this.pendingChecks.delete(fieldName);
+
+    const context = { editId: this.editId, values: this.getFormValues() };
+    const errorMessage = validateField(fieldName, field.value, context);
+    if (errorMessage || !hasAsyncRules(fieldName)) {
+      this.showFieldStatus(fieldName, errorMessage ? "error" : "success", errorMessage);
+      return !errorMessage;
+    }
+
+    const controller = new AbortController();
+    this.pendingChecks.set(fieldName, controller);
+    this.showFieldStatus(fieldName, "pending", t("form.checking"));
+    const asyncErrorMessage = await validateFieldAsync(fieldName, field.value, {
+      ...context,
+      signal: controller.signal,
+    });
+    if (controller.signal.aborted) {
+      return false;
     }
+    this.pendingChecks.delete(fieldName);
+    this.showFieldStatus(
+      fieldName,
+      asyncErrorMessage ? "error" : "success",
+      asyncErrorMessage
+    );
+    return !asyncErrorMessage;
   }
 
-  private validateField(fieldName: string): void {
-    const field = this.element.querySelector(`#${fieldName}`) as
-      | HTMLInputElement
-      | HTMLSelectElement;
-    const errorMessage = validateField(fieldName, field.value);
+  /**
+   * Updates the icons, message and error state of a field.
+   * @param {string} fieldName - The name of the field.
+   * @param {"error" | "success" | "pending"} status - The validation status to show.
+   * @param {string | null} message - The error or pending message, if any.
+   */
 
+  private showFieldStatus(
+    fieldName: string,
+    status: "error" | "success" | "pending",
+    message: string | null
+  ): void {
+    const field = this.element.querySelector(`#${fieldName}`) as HTMLInputElement;
     const formGroup = field.closest(".form-group") as HTMLElement;
-    const errorIcon = formGroup.querySelector(
-      `.validation-icon.error`
-    ) as HTMLElement;
-    const successIcon = formGroup.querySelector(
-      `.validation-icon.success`
-    ) as HTMLElement;
     const errorMessageElement = formGroup.querySelector(
       `.error-message`
     ) as HTMLElement;
 
-    if (errorMessage) {
-      this.errors[fieldName] = errorMessage;
-      formGroup.classList.add("error");
-      formGroup.classList.remove("success");
-      errorIcon.style.display = "inline";
-      errorIcon.style.opacity = "1";
-      successIcon.style.display = "none";
-      successIcon.style.opacity = "0";
-      errorMessageElement.textContent = errorMessage;
-      errorMessageElement.style.display = "block";
-      errorMessageElement.style.opacity = "1";
+    if (status === "error" && message) {
+      if (this.errors[fieldName] !== message) {
+        this.announce(`${getFieldLabel(fieldName)}: ${message}`);
+      }
+      this.errors[fieldName] = message;
     } else {
       delete this.errors[fieldName];
-      formGroup.classList.remove("error");
-      formGroup.classList.add("success");
-      errorIcon.style.display = "none";
-      errorIcon.style.opacity = "0";
-      successIcon.style.display = "inline";
-      successIcon.style.opacity = "1";
-      errorMessageElement.textContent = "";
-      errorMessageElement.style.display = "none";
-      errorMessageElement.style.opacity = "0";
     }
-  }
 
-  private validateForm(): boolean {
-    let isValid = true;
-    [
-      "name",
-      "phone",
-      "email",
-      "dob",
-      "age",
-      "country",
-      "state",
-      "city",
-      "zip",
-    ].forEach((fieldName) => {
-      this.validateField(fieldName);
-      if (this.errors[fieldName]) {
-        isValid = false;
-      }
+    (["error", "success", "pending"] as const).forEach((name) => {
+      const icon = formGroup.querySelector(
+        `.validation-icon.${name}`
+      ) as HTMLElement;
+      formGroup.classList.toggle(name, name === status);
+      icon.style.display = name === status ? "inline" : "none";
+      icon.style.opacity = name === status ? "1" : "0";
     });
-    return isValid;
+
+    field.setAttribute("aria-invalid", String(status === "error"));
+    errorMessageElement.textContent = message ?? "";
+    errorMessageElement.style.display = message ? "block" : "none";
+    errorMessageElement.style.opacity = message ? "1" : "0";
+  }
+
+  /**
+   * Validates every field, waiting for async checks.
+   * @returns {Promise<boolean>} Whether all fields are valid.
+   */
+
+  private async validateForm(): Promise<boolean> {
+    const results = await Promise.all(
+      formSchema.map(({ name }) => this.validateField(name))
+    );
+    return results.every(Boolean);
+  }
+
+  /**
+   * Moves the focus to the first field that failed validation and
+   * announces how many fields need fixing.
+   */
+
+  private focusFirstError(): void {
+    const invalidFields = formSchema.filter(({ name }) => this.errors[name]);
+    if (invalidFields.length === 0) {
+      return;
+    }
+    this.announce(t("form.invalidFields", { count: invalidFields.length }));
+    (this.element.querySelector(`#${invalidFields[0].name}`) as HTMLInputElement).focus();
+  }
+
+  /**
+   * Reads a message out to screen reader users through the form's live region.
+   * @param {string} message - The message to announce.
+   */
+
+  private announce(message: string): void {
+    const status = this.element.querySelector("#formStatus");
+    if (status) {
+      status.textContent = message;
+    }
   }
 }
@@ -0,0 +1,236 @@
+import { BaseComponent } from "./BaseComponent.ts";
+import type { EventEmitter } from "./EventListener.ts";
+import { FocusTrap } from "./FocusTrap.ts";
+import type { AppEvents, FormData, Revision } from "./Interfaces.ts";
+import { formSchema, getFieldLabel } from "./formSchema.ts";
+import { formatDateTime, t } from "./i18n.ts";
+import { diffRevisions, toRevision } from "./revisions.ts";
+import { escapeHtml } from "./utils.ts";
+
+/**
+ * Shows the revision history of a record, with a field-by-field diff
+ * between any two versions and the option to revert to an earlier one.
+ * @extends BaseComponent
+ */
+
+export class HistoryComponent extends BaseComponent {
+  private eventEmitter: EventEmitter<AppEvents>;
+  private focusTrap: FocusTrap;
+  private record: FormData | null = null;
+  private versions: Revision[] = [];
+  private fromIndex = 0;
+  private toIndex = 0;
+
+  /**
+   * Constructs the HistoryComponent.
+   * @param {string} elementId - The ID of the DOM element hosting the history dialog.
+   * @param {EventEmitter<AppEvents>} eventEmitter - The event emitter used to request reverts.
+   */
+
+  constructor(elementId: string, eventEmitter: EventEmitter<AppEvents>) {
+    super(elementId);
+    this.focusTrap = new FocusTrap(this.element, () => this.close());
+    this.eventEmitter = eventEmitter;
+    this.addEventListeners();
+  }
+
+  /**
+   * Opens the history dialog for a record, comparing the previous version with the current one.
+   * @param {FormData} record - The record whose history to show.
+   */
+
+  open(record: FormData): void {
+    this.focusTrap.activate();
+    this.record = record;
+    this.versions = [...(record.history || []), toRevision(record)];
+    this.toIndex = this.versions.length - 1;
+    this.fromIndex = Math.max(0, this.toIndex - 1);
+    this.render();
+  }
+
+  /**
+   * Closes the history dialog.
+   */
+
+  close(): void {
+    this.record = null;
+    this.element.innerHTML = "";
+    this.focusTrap.deactivate();
+  }
+
+  /**
+   * Renders the history dialog.
+   */
+
+  render(): void {
+    if (!this.record) {
+      return;
+    }
+
+    const from = this.versions[this.fromIndex];
+    const to = this.versions[this.toIndex];
+    const changedFields = diffRevisions(from.values, to.values);
+    const isCurrent = this.fromIndex === this.versions.length - 1;
+
+    const rows = formSchema.map(
+      (field) => `
+        <tr class="${changedFields.includes(field.name) ? "changed" : ""}">
+          <td>${getFieldLabel(field.name)}</td>
+          <td>${escapeHtml(from.values[field.name])}</td>
+          <td>${escapeHtml(to.values[field.name])}</td>
+        </tr>
+      `
+    ).join("");
+
+    this.element.innerHTML = `
+      <style>
+        .history-modal {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          background-color: rgba(0, 0, 0, 0.5);
+          display: flex;
+          justify-content: center;
+          align-items: center;
+          z-index: 1000;
+        }
+        .history-content {
+          background: #fff;
+          padding: 30px;
+          border-radius: 8px;
+          box-shadow: 0 4px 15px rgba(0, 0, 0, 0.2);
+          width: 700px;
+          max-width: 95%;
+          max-height: 90vh;
+          overflow-y: auto;
+        }
+        .history-content h2 {
+          margin-bottom: 15px;
+          color: #0062cc;
+        }
+        .history-compare {
+          display: flex;
+          gap: 15px;
+          margin-bottom: 15px;
+        }
+        .history-compare label {
+          flex: 1;
+        }
+        .history-compare select {
+          padding: 6px;
+          font-size: 14px;
+        }
+        .history-diff {
+          width: 100%;
+          margin-bottom: 15px;
+          font-size: 14px;
+        }
+        .history-diff tr.changed td {
+          background-color: #fff3cd;
+        }
+        .history-diff tr.changed td:first-child {
+          font-weight: bold;
+        }
+        .history-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: 10px;
+        }
+        .history-actions button:disabled {
+          cursor: not-allowed;
+          opacity: 0.5;
+        }
+      </style>
+      <div class="history-modal">
+        <div class="history-content" role="dialog" aria-modal="true" aria-labelledby="historyTitle">
+          <h2 id="historyTitle">${t("history.title", { name: escapeHtml(this.record.name) })}</h2>
+          ${this.versions.length === 1
+        ? `<p>${t("history.noEdits")}</p>`
+        : ""
+      }
+          <div class="history-compare">
+            <label>
+              ${t("history.from")}
+              <select id="historyFrom">${this.renderVersionOptions(this.fromIndex)}</select>
+            </label>
+            <label>
+              ${t("history.to")}
+              <select id="historyTo">${this.renderVersionOptions(this.toIndex)}</select>
+            </label>
+          </div>
+          <table class="history-diff">
+            <thead>
+              <tr>
+                <th>${t("history.field")}</th>
+                <th>${t("history.from")}</th>
+                <th>${t("history.to")}</th>
+              </tr>
+            </thead>
+            <tbody>${rows}</tbody>
+          </table>
+          <p>${t("history.changedFields", { count: changedFields.length })}</p>
+          <div class="history-actions">
+            <button type="button" data-action="revert" ${isCurrent ? "disabled" : ""}>
+              ${t("history.revert")}
+            </button>
+            <button type="button" data-action="close">${t("common.close")}</button>
+          </div>
+        </div>
+      </div>
+    `;
+    this.focusTrap.afterRender();
+  }
+
+  /**
+   * Renders the options of a version select.
+   * @param {number} selectedIndex - The index of the selected version.
+   * @returns {string} The HTML for the options.
+   */
+
+  private renderVersionOptions(selectedIndex: number): string {
+    return this.versions
+      .map((version, index) => {
+        const label =
+          index === this.versions.length - 1
+            ? t("history.current")
+            : t("history.version", { number: index + 1 });
+        const savedAt = isNaN(new Date(version.timeStamp).getTime())
+          ? ""
+          : ` (${formatDateTime(version.timeStamp)})`;
+        return `<option value="${index}" ${index === selectedIndex ? "selected" : ""}>${label}${savedAt}</option>`;
+      })
+      .join("");
+  }
+
+  /**
+   * Adds delegated event listeners for the dialog controls.
+   */
+
+  private addEventListeners(): void {
+    this.element.addEventListener("change", (e) => {
+      const target = e.target as HTMLSelectElement;
+      if (target.id === "historyFrom") {
+        this.fromIndex = Number.parseInt(target.value, 10);
+        this.render();
+      } else if (target.id === "historyTo") {
+        this.toIndex = Number.parseInt(target.value, 10);
+        this.render();
+      }
+    });
+
+    this.element.addEventListener("click", (e) => {
+      const action = (e.target as HTMLElement).getAttribute("data-action");
+      if (action === "close") {
+        this.close();
+      } else if (action === "revert" && this.record) {
+        this.eventEmitter.emit("revertRecord", {
+          id: this.record.id,
+          values: this.versions[this.fromIndex].values,
+        });
+        this.close();
+      }
+    });
+  }
+}
@@ -0,0 +1,554 @@
+import { BaseComponent } from "./BaseComponent.ts";
+import type { EventEmitter } from "./EventListener.ts";
+import { FocusTrap } from "./FocusTrap.ts";
+import type {
+  AppEvents,
+  FormData,
+  LocationProvider,
+  RecordValues,
+} from "./Interfaces.ts";
+import { Notification } from "./Notification.ts";
+import { parseCsv } from "./csv.ts";
+import {
+  buildRecordValues,
+  formSchema,
+  getFieldLabel,
+  getUniqueValue,
+} from "./formSchema.ts";
+import { getTranslations, t } from "./i18n.ts";
+import { escapeHtml } from "./utils.ts";
+import { validateFieldAsync } from "./validation.ts";
+
+/**
+ * Form fields that can be filled from a CSV column.
+ */
+type ImportField = keyof RecordValues;
+
+/**
+ * Steps of the import flow.
+ */
+type ImportStep = "upload" | "mapping" | "report";
+
+/**
+ * The outcome of validating a single CSV row.
+ */
+interface ImportRowResult {
+  rowNumber: number;
+  record: FormData;
+  errors: Partial<Record<ImportField, string>>;
+}
+
+/**
+ * Guides the user through importing records from a CSV file:
+ * choosing a file, mapping its columns onto form fields and reviewing
+ * a per-row validation report before the valid rows are committed.
+ * @extends BaseComponent
+ */
+
+export class ImportComponent extends BaseComponent {
+  private eventEmitter: EventEmitter<AppEvents>;
+  private focusTrap: FocusTrap;
+  private locationProvider: LocationProvider;
+  private step: ImportStep = "upload";
+  private fileName = "";
+  private headers: string[] = [];
+  private rows: string[][] = [];
+  private mapping: Partial<Record<ImportField, number>> = {};
+  private results: ImportRowResult[] = [];
+
+  /**
+   * Constructs the ImportComponent.
+   * @param {string} elementId - The ID of the DOM element hosting the import dialog.
+   * @param {EventEmitter} eventEmitter - The event emitter used to hand over imported records.
+   * @param {LocationProvider} locationProvider - The source of the spelling of countries, states and cities.
+   */
+
+  constructor(
+    elementId: string,
+    eventEmitter: EventEmitter<AppEvents>,
+    locationProvider: LocationProvider
+  ) {
+    super(elementId);
+    this.focusTrap = new FocusTrap(this.element, () => this.close());
+    this.eventEmitter = eventEmitter;
+    this.locationProvider = locationProvider;
+    this.addEventListeners();
+  }
+
+  /**
+   * Opens the import dialog at the file selection step.
+   */
+
+  open(): void {
+    this.focusTrap.activate();
+    this.step = "upload";
+    this.fileName = "";
+    this.headers = [];
+    this.rows = [];
+    this.mapping = {};
+    this.results = [];
+    this.render();
+  }
+
+  /**
+   * Closes the import dialog.
+   */
+
+  close(): void {
+    this.element.innerHTML = "";
+    this.focusTrap.deactivate();
+  }
+
+  /**
+   * Renders the current step of the import dialog.
+   */
+
+  render(): void {
+    let body: string;
+    if (this.step === "mapping") {
+      body = this.renderMappingStep();
+    } else if (this.step === "report") {
+      body = this.renderReportStep();
+    } else {
+      body = `
+        <p id="importFileLabel">${t("import.chooseFile")}</p>
+        <input type="file" id="importFile" accept=".csv,text/csv" aria-labelledby="importFileLabel" />
+        <div class="import-actions">
+          <button type="button" data-action="cancel">${t("common.cancel")}</button>
+        </div>
+      `;
+    }
+
+    this.element.innerHTML = `
+      <style>
+        .import-modal {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          background-color: rgba(0, 0, 0, 0.5);
+          display: flex;
+          justify-content: center;
+          align-items: center;
+          z-index: 1000;
+        }
+        .import-content {
+          background: #fff;
+          padding: 30px;
+          border-radius: 8px;
+          box-shadow: 0 4px 15px rgba(0, 0, 0, 0.2);
+          width: 700px;
+          max-width: 95%;
+          max-height: 90vh;
+          overflow-y: auto;
+        }
+        .import-content h2 {
+          margin-bottom: 15px;
+          color: #0062cc;
+        }
+        .import-content p {
+          margin-bottom: 15px;
+        }
+        .import-mapping {
+          display: grid;
+          grid-template-columns: 1fr 2fr;
+          gap: 10px;
+          align-items: center;
+          margin-bottom: 15px;
+        }
+        .import-mapping select {
+          padding: 6px;
+          font-size: 14px;
+        }
+        .import-report {
+          width: 100%;
+          margin-bottom: 15px;
+          font-size: 14px;
+        }
+        .import-report th {
+          background-color: #dc3545;
+        }
+        .import-report ul {
+          list-style: none;
+        }
+        .import-summary .valid {
+          color: #28a745;
+          font-weight: bold;
+        }
+        .import-summary .invalid {
+          color: #dc3545;
+          font-weight: bold;
+        }
+        .import-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: 10px;
+        }
+        .import-actions button:disabled {
+          cursor: not-allowed;
+          opacity: 0.5;
+        }
+      </style>
+      <div class="import-modal">
+        <div class="import-content" role="dialog" aria-modal="true" aria-labelledby="importTitle">
+          <h2 id="importTitle">${t("import.title")}</h2>
+          ${body}
+        </div>
+      </div>
+    `;
+    this.focusTrap.afterRender();
+  }
+
+  /**
+   * Renders the column-to-field mapping step.
+   * @returns {string} The HTML for the mapping step.
+   */
+
+  private renderMappingStep(): string {
+    const fields = formSchema.map((field) => {
+      const options = this.headers
+        .map(
+          (header, index) =>
+            `<option value="${index}" ${this.mapping[field.name] === index ? "selected" : ""}>${escapeHtml(header)}</option>`
+        )
+        .join("");
+      return `
+        <label for="map-${field.name}">${getFieldLabel(field.name)}</label>
+        <select id="map-${field.name}" data-map-field="${field.name}">
+          <option value="">${t("import.skipColumn")}</option>
+          ${options}
+        </select>
+      `;
+    }).join("");
+
+    return `
+      <p>
+        ${t("import.mapColumns", {
+      file: `<strong>${escapeHtml(this.fileName)}</strong>`,
+      count: this.rows.length,
+    })}
+      </p>
+      <div class="import-mapping">${fields}</div>
+      <div class="import-actions">
+        <button type="button" data-action="back">${t("common.back")}</button>
+        <button type="button" data-action="validate">${t("import.validate")}</button>
+        <button type="button" data-action="cancel">${t("common.cancel")}</button>
+      </div>
+    `;
+  }
+
+  /**
+   * Renders the validation report step.
+   * @returns {string} The HTML for the report step.
+   */
+
+  private renderReportStep(): string {
+    const validCount = this.getValidRecords().length;
+    const failedResults = this.results.filter(
+      (result) => Object.keys(result.errors).length > 0
+    );
+
+    const failedRows = failedResults
+      .map(
+        (result) => `
+          <tr>
+            <td>${result.rowNumber}</td>
+            <td>
+              <ul>
+                ${Object.entries(result.errors)
+            .map(
+              ([field, message]) =>
+                `<li><strong>${getFieldLabel(field)}:</strong> ${escapeHtml(message)}</li>`
+            )
+            .join("")}
+              </ul>
+            </td>
+          </tr>
+        `
+      )
+      .join("");
+
+    return `
+      <p class="import-summary">
+        ${t("import.summary", {
+      valid: `<span class="valid">${t("import.validCount", { count: validCount })}</span>`,
+      invalid: `<span class="invalid">${t("import.invalidCount", { count: failedResults.length })}</span>`,
+      count: this.results.length,
+    })}
+      </p>
+      ${failedResults.length > 0
+        ? `
+        <table class="import-report">
+          <thead>
+            <tr>
+              <th>${t("import.row")}</th>
+              <th>${t("import.errors")}</th>
+            </tr>
+          </thead>
+          <tbody>${failedRows}</tbody>
+        </table>
+      `
+        : ""
+      }
+      <div class="import-actions">
+        <button type="button" data-action="back">${t("import.backToMapping")}</button>
+        <button type="button" data-action="commit" ${validCount === 0 ? "disabled" : ""}>
+          ${t("import.commit", { count: validCount })}
+        </button>
+        <button type="button" data-action="cancel">${t("common.cancel")}</button>
+      </div>
+    `;
+  }
+
+  /**
+   * Adds delegated event listeners for the dialog controls.
+   */
+
+  private addEventListeners(): void {
+    this.element.addEventListener("click", (e) => {
+      const target = e.target as HTMLElement;
+      const action = target.getAttribute("data-action");
+      if (action === "cancel") {
+        this.close();
+      } else if (action === "back") {
+        this.step = this.step === "report" ? "mapping" : "upload";
+        this.render();
+      } else if (action === "validate") {
+        this.validateRows();
+      } else if (action === "commit") {
+        this.commit();
+      }
+    });
+
+    this.element.addEventListener("change", (e) => {
+      const target = e.target as HTMLInputElement | HTMLSelectElement;
+      if (target.id === "importFile") {
+        const file = (target as HTMLInputElement).files?.[0];
+        if (file) {
+          this.handleFile(file);
+        }
+      } else if (target.hasAttribute("data-map-field")) {
+        const field = target.getAttribute("data-map-field") as ImportField;
+        if (target.value === "") {
+          delete this.mapping[field];
+        } else {
+          this.mapping[field] = Number.parseInt(target.value, 10);
+        }
+      }
+    });
+  }
+
+  /**
+   * Reads and parses the selected CSV file, then moves to the mapping step.
+   * A file that cannot be read, or is not valid UTF-8 text, is reported
+   * instead of being imported with garbled characters.
+   * @param {File} file - The selected file.
+   */
+
+  private async handleFile(file: File): Promise<void> {
+    let rows: string[][];
+    try {
+      const text = new TextDecoder("utf-8", { fatal: true }).decode(
+        await file.arrayBuffer()
+      );
+      rows = parseCsv(text);
+    } catch (error) {
+      console.error(`Could not read "${file.name}"`, error);
+      Notification.show(t("import.unreadable", { file: file.name }));
+      return;
+    }
+    if (rows.length < 2) {
+      Notification.show(t("import.noRows"));
+      return;
+    }
+
+    this.fileName = file.name;
+    this.headers = rows[0].map((header) => header.trim());
+    this.rows = rows.slice(1);
+    this.mapping = this.guessMapping(this.headers);
+    this.step = "mapping";
+    this.render();
+  }
+
+  /**
+   * Guesses which column feeds each field by comparing headers with the
+   * aliases declared in the form schema and with the field label in every
+   * language, so exported files are recognized whatever their language.
+   * @param {string[]} headers - The CSV header row.
+   * @returns The guessed mapping of fields to column indexes.
+   */
+
+  private guessMapping(headers: string[]): Partial<Record<ImportField, number>> {
+    const mapping: Partial<Record<ImportField, number>> = {};
+    const normalize = (header: string) =>
+      header.toLowerCase().replace(/[^\p{L}\p{M}\p{N}]/gu, "");
+    const normalizedHeaders = headers.map(normalize);
+
+    formSchema.forEach((field) => {
+      const names = [
+        ...field.aliases,
+        ...getTranslations(`fields.${field.name}`).map(normalize),
+      ];
+      const index = normalizedHeaders.findIndex((header) =>
+        names.includes(header)
+      );
+      if (index !== -1) {
+        mapping[field.name] = index;
+      }
+    });
+    return mapping;
+  }
+
+  /**
+   * Runs every row through the field validation rules, including the async
+   * uniqueness checks against existing records, and shows the report.
+   * Locations are spelled as in the location data and derived fields left
+   * empty, such as the age, are computed first. A row repeating the email
+   * or phone number of an earlier valid row is rejected too, since both
+   * would otherwise be imported. The validate button is disabled while the
+   * checks run.
+   */
+
+  private async validateRows(): Promise<void> {
+    if (Object.keys(this.mapping).length === 0) {
+      Notification.show(t("import.noMapping"));
+      return;
+    }
+
+    const validateButton = this.element.querySelector(
+      'button[data-action="validate"]'
+    ) as HTMLButtonElement;
+    validateButton.disabled = true;
+    const timeStamp = new Date().toISOString();
+    const idPrefix = Date.now().toString();
+    const countries = await this.locationProvider.getCountries();
+
+    this.results = await Promise.all(this.rows.map(async (row, index) => {
+      const values = {} as Record<ImportField, string>;
+      const errors: Partial<Record<ImportField, string>> = {};
+
+      formSchema.forEach((field) => {
+        const column = this.mapping[field.name];
+        values[field.name] = column === undefined ? "" : (row[column] ?? "").trim();
+      });
+      await this.matchLocation(values, countries);
+      formSchema.forEach((field) => {
+        if (field.derive && values[field.name] === "") {
+          values[field.name] = field.derive(values) ?? "";
+        }
+      });
+
+      for (const field of formSchema) {
+        const errorMessage = await validateFieldAsync(field.name, values[field.name], {
+          editId: null,
+          values,
+        });
+        if (errorMessage) {
+          errors[field.name] = errorMessage;
+        }
+      }
+
+      return {
+        rowNumber: index + 2,
+        errors,
+        record: {
+          id: `${idPrefix}-${index}`,
+          ...buildRecordValues((name) => values[name]),
+          history: [],
+          timeStamp,
+        },
+      };
+    }));
+
+    const firstRows = new Map<string, number>();
+    this.results.forEach((result) => {
+      if (Object.keys(result.errors).length > 0) {
+        return;
+      }
+      const keys = formSchema
+        .map((field) => {
+          const value = getUniqueValue(
+            field.name,
+            String(result.record[field.name] ?? ""),
+            result.record.country
+          );
+          return value ? ([field.name, `${field.name}:${value}`] as const) : null;
+        })
+        .filter((key) => key !== null);
+      keys.forEach(([name, key]) => {
+        const firstRow = firstRows.get(key);
+        if (firstRow !== undefined) {
+          result.errors[name] = t("import.duplicateInFile", { row: firstRow });
+        }
+      });
+      if (Object.keys(result.errors).length === 0) {
+        keys.forEach(([, key]) => firstRows.set(key, result.rowNumber));
+      }
+    });
+
+    validateButton.disabled = false;
+    if (validateButton.isConnected) {
+      this.step = "report";
+      this.render();
+    }
+  }
+
+  /**
+   * Replaces the country, state and city of a row with their spelling in
+   * the location data, ignoring case and accents, so "india" is imported
+   * and validated as "India". Values that are not listed are kept as written.
+   * @param {Record<ImportField, string>} values - The values of the row.
+   * @param {string[]} countries - The listed countries.
+   */
+
+  private async matchLocation(
+    values: Record<ImportField, string>,
+    countries: string[]
+  ): Promise<void> {
+    const match = (options: string[], value: string) =>
+      options.find(
+        (option) =>
+          option.localeCompare(value, undefined, { sensitivity: "base" }) === 0
+      ) ?? value;
+
+    values.country = match(countries, values.country);
+    if (values.country === "" || values.state === "") {
+      return;
+    }
+    values.state = match(
+      await this.locationProvider.getStates(values.country),
+      values.state
+    );
+    if (values.city !== "") {
+      values.city = match(
+        await this.locationProvider.getCities(values.country, values.state),
+        values.city
+      );
+    }
+  }
+
+  /**
+   * Emits the valid records for import and closes the dialog.
+   */
+
+  private commit(): void {
+    const records = this.getValidRecords();
+    if (records.length > 0) {
+      this.eventEmitter.emit("importData", records);
+    }
+    this.close();
+  }
+
+  /**
+   * Returns the records of all rows that passed validation.
+   * @returns {FormData[]} The valid records.
+   */
+
+  private getValidRecords(): FormData[] {
+    return this.results
+      .filter((result) => Object.keys(result.errors).length === 0)
+      .map((result) => result.record);
+  }
+
+}
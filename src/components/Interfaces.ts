@@ -12,10 +12,96 @@ export interface FormData {
   state: string;
   city: string;
   zip: string;
-  restoreData: any[];
+  history: Revision[];
   timeStamp: string
 }
 
+/**
+ * A record in the trash, with the time it was deleted.
+ */
+export interface DeletedRecord extends FormData {
+  deletedAt: string;
+}
+
+/**
+ * The editable values of a record, without its ID, history and timestamp.
+ */
+export type RecordValues = Omit<FormData, "id" | "history" | "timeStamp">;
+
+/**
+ * How tightly the table rows are spaced.
+ */
+export type TableDensity = "comfortable" | "compact";
+
+/**
+ * A table column as arranged by the user.
+ */
+export interface TableLayoutColumn {
+  key: keyof FormData;
+  visible: boolean;
+
+  /**
+   * The width in pixels, or `null` to size the column to its contents.
+   */
+  width: number | null;
+}
+
+/**
+ * The table layout chosen by the user, saved with the preferences.
+ */
+export interface TableLayout {
+
+  /**
+   * Every column the table can show, in display order.
+   */
+  columns: TableLayoutColumn[];
+  density: TableDensity;
+}
+
+/**
+ * A previous version of a record.
+ */
+
+export interface Revision {
+  /**
+   * When these values were saved.
+   */
+  timeStamp: string;
+
+  /**
+   * The record values at that time.
+   */
+  values: RecordValues;
+}
+
+/**
+ * A declarative validation rule that can be stored as JSON.
+ * Every rule accepts an optional `message` that replaces its default error
+ * message. Messages may refer to `{label}` and to the rule's own settings,
+ * e.g. `{value}` or `{min}`.
+ */
+
+export type RuleSpec =
+  | { type: "required"; message?: string }
+  | { type: "minLength"; value: number; message?: string }
+  | { type: "maxLength"; value: number; message?: string }
+  | { type: "pattern"; value: string; flags?: string; message?: string }
+  | { type: "range"; min?: number; max?: number; message?: string }
+  | { type: "date"; minAge?: number; maxAge?: number; message?: string }
+  | { type: "oneOf"; values: string[]; message?: string };
+
+/**
+ * Declarative rules of one field, keyed by rule name and checked in order.
+ */
+
+export type RuleSpecs = Record<string, RuleSpec>;
+
+/**
+ * Declarative rules that replace the defaults of some fields, keyed by field name.
+ */
+
+export type RuleOverrides = Partial<Record<keyof RecordValues, RuleSpecs>>;
+
 /**
  * Interface representing a country and its associated states.
  */
@@ -23,6 +109,12 @@ export interface FormData {
 export interface Country {
   name: string;
   states: State[];
+
+  /**
+   * Postal code prefixes and the places they belong to, used to look up
+   * the location of a postal code.
+   */
+  postalCodes?: PostalCodeArea[];
 }
 
 /**
@@ -34,24 +126,107 @@ export interface State {
   cities: string[];
 }
 
+/**
+ * Interface representing the area served by postal codes sharing a prefix.
+ */
+
+export interface PostalCodeArea {
+
+  /**
+   * The leading characters of the postal codes, uppercase without spaces or dashes.
+   */
+  prefix: string;
+  state: string;
+  city: string;
+}
+
+/**
+ * Interface representing the place a postal code belongs to.
+ */
+
+export interface PostalCodeLocation {
+  country: string;
+  state: string;
+  city: string;
+}
+
+/**
+ * Map of application event names to the payload each event carries.
+ * Events without a payload use `void`.
+ */
+
+export interface AppEvents {
+  formSubmit: FormData;
+  editItem: string;
+  editItemInForm: { id: string; values: Partial<Record<string, string>>; fields: (keyof RecordValues)[] };
+  showRecordDetails: string;
+  updateFormData: FormData;
+  showBulkUpdate: string[];
+  updateRecords: { id: string; values: RecordValues }[];
+  showDeleteConfirmation: string;
+  showTrash: void;
+  deleteData: string;
+  deleteRecords: string[];
+  restoreDeleteData: string[];
+  purgeDeletedData: string[];
+  emptyTrash: void;
+  setTrashRetention: number | null;
+  showHistory: string;
+  revertRecord: { id: string; values: RecordValues };
+  showImportModal: void;
+  importData: FormData[];
+  showExportModal: void;
+  showDuplicates: void;
+  mergeRecords: { survivorId: string; discardedIds: string[]; values: RecordValues };
+  saveValidationRules: RuleOverrides;
+}
+
+/**
+ * The arguments passed to a listener of an event with the given payload type.
+ */
+export type EventArgs<T> = [T] extends [void] ? [] : [payload: T];
+
+/**
+ * A listener for an event with the given payload type.
+ */
+export type EventCallback<T> = (...args: EventArgs<T>) => void;
+
+/**
+ * A listener registered for every event. It receives the event name and its payload.
+ */
+export type WildcardCallback<Events> = <K extends keyof Events>(
+  eventName: K,
+  ...args: EventArgs<Events[K]>
+) => void;
+
+/**
+ * Removes the listener it was returned for.
+ */
+export type Unsubscribe = () => void;
+
 /**
  * Interface for managing event listeners.
+ * @template Events - Map of event names to payload types.
  */
 
-export interface EventListener {
+export interface EventListener<Events> {
   /**
    * Registers a callback function to a specific event.
    * @param eventName - Name of the event to listen for.
    * @param callback - Callback function to execute when the event is triggered.
+   * @returns A function that removes the listener.
    */
-  on(eventName: string, callback: (...args: any[]) => void): void;
+  on<K extends keyof Events>(
+    eventName: K,
+    callback: EventCallback<Events[K]>
+  ): Unsubscribe;
 
   /**
   * Emits an event, invoking all associated callbacks.
   * @param eventName - Name of the event to emit.
-  * @param args - Arguments to pass to the callback functions.
+  * @param args - The event payload, if the event has one.
   */
-  emit(eventName: string, ...args: unknown[]): void;
+  emit<K extends keyof Events>(eventName: K, ...args: EventArgs<Events[K]>): void;
 }
 
 // export interface StateManager {
@@ -83,13 +258,103 @@ export interface StateManager {
 
   /**
   * Retrieves the deleted data.
-  * @returns An array of `FormData` objects that have been deleted.
+  * @returns An array of `DeletedRecord` objects in the trash.
   */
-  getDeletedData(): FormData[];
+  getDeletedData(): DeletedRecord[];
 
   /**
    * Sets the deleted data.
-   * @param data - An array of `FormData` objects to mark as deleted.
+   * @param data - An array of `DeletedRecord` objects to keep in the trash.
+   */
+  setDeletedData(data: DeletedRecord[]): void;
+
+  /**
+   * Waits until every pending write has been persisted by the storage backend.
+   * @returns A promise that resolves once storage is up to date.
+   */
+  flush(): Promise<void>;
+}
+
+/**
+ * Interface for an asynchronous key/value storage backend.
+ */
+
+export interface StorageAdapter {
+
+  /**
+   * Reads the value stored under a key.
+   * @param key - The key to read.
+   * @returns The stored value, or `null` if nothing is stored under the key.
+   */
+  getItem(key: string): Promise<string | null>;
+
+  /**
+   * Stores a value under a key, replacing any previous value.
+   * @param key - The key to write.
+   * @param value - The value to store.
+   */
+  setItem(key: string, value: string): Promise<void>;
+
+  /**
+   * Removes the value stored under a key.
+   * @param key - The key to remove.
+   */
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Interface for a source of countries, states and cities.
+ */
+
+export interface LocationProvider {
+
+  /**
+   * Lists the available countries.
+   * @returns The country names.
+   */
+  getCountries(): Promise<string[]>;
+
+  /**
+   * Lists the states of a country.
+   * @param country - The country name.
+   * @returns The state names, or an empty list for an unknown country.
+   */
+  getStates(country: string): Promise<string[]>;
+
+  /**
+   * Lists the cities of a state.
+   * @param country - The country name.
+   * @param state - The state name.
+   * @returns The city names, or an empty list for an unknown country or state.
+   */
+  getCities(country: string, state: string): Promise<string[]>;
+
+  /**
+   * Finds the place a postal code belongs to.
+   * @param postalCode - The postal code as entered.
+   * @returns The location, or `null` if the code is not in the dataset.
+   */
+  lookupPostalCode(postalCode: string): Promise<PostalCodeLocation | null>;
+}
+
+/**
+ * Interface for a reversible state change.
+ */
+
+export interface Command {
+
+  /**
+   * A short description of the change, shown in undo/redo controls.
+   */
+  label: string;
+
+  /**
+   * Applies the change. Called again to redo it after an undo.
+   */
+  execute(): void;
+
+  /**
+   * Reverts the change.
    */
-  setDeletedData(data: FormData[]): void;
+  undo(): void;
 }
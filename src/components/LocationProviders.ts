@@ -0,0 +1,192 @@
+import type {
+  Country,
+  LocationProvider,
+  PostalCodeLocation,
+} from "./Interfaces.ts";
+import { Notification } from "./Notification.ts";
+import { getCountriesForPostalCode } from "./countryFormats.ts";
+import { t } from "./i18n.ts";
+
+/**
+ * Loaders for the bundled location files, one per country. Each file is
+ * split into its own chunk so it is only downloaded when first needed.
+ */
+const LOCATION_FILES = import.meta.glob("../data/locations/*.json", {
+  import: "default",
+});
+
+/**
+ * Reads countries, states and cities from the JSON files bundled in
+ * `src/data/locations`. Each file holds one country, named after the file,
+ * and is loaded the first time one of its states, cities or postal codes
+ * is requested.
+ * @implements {LocationProvider}
+ */
+
+export class BundledLocationProvider implements LocationProvider {
+  private loaders: Map<string, () => Promise<unknown>>;
+  private countries = new Map<string, Promise<Country | null>>();
+
+  /**
+   * Creates a BundledLocationProvider.
+   * @param {Record<string, () => Promise<unknown>>} [files] - Loaders keyed by file path; defaults to the bundled files.
+   */
+
+  constructor(files: Record<string, () => Promise<unknown>> = LOCATION_FILES) {
+    this.loaders = new Map(
+      Object.entries(files).map(([path, load]) => [
+        path.replace(/^.*\//, "").replace(/\.json$/, ""),
+        load,
+      ])
+    );
+  }
+
+  async getCountries(): Promise<string[]> {
+    return [...this.loaders.keys()].sort((a, b) => a.localeCompare(b));
+  }
+
+  async getStates(country: string): Promise<string[]> {
+    const data = await this.loadCountry(country);
+    return data ? data.states.map((state) => state.name) : [];
+  }
+
+  async getCities(country: string, state: string): Promise<string[]> {
+    const data = await this.loadCountry(country);
+    return data?.states.find((item) => item.name === state)?.cities ?? [];
+  }
+
+  /**
+   * Finds the postal code area with the longest matching prefix, searching
+   * only the countries whose postal code format the code matches.
+   */
+
+  async lookupPostalCode(
+    postalCode: string
+  ): Promise<PostalCodeLocation | null> {
+    const code = postalCode.toUpperCase().replace(/[\s-]/g, "");
+    for (const country of getCountriesForPostalCode(postalCode)) {
+      const data = await this.loadCountry(country);
+      const area = (data?.postalCodes ?? [])
+        .filter((item) => code.startsWith(item.prefix))
+        .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+      if (area) {
+        return { country, state: area.state, city: area.city };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Loads the file of a country once and caches it.
+   * A failed load is not cached, so the next request tries again.
+   * @param {string} country - The country name.
+   * @returns A promise for the country data, or `null` for an unknown country.
+   * @private
+   */
+
+  private loadCountry(country: string): Promise<Country | null> {
+    const load = this.loaders.get(country);
+    if (!load) {
+      return Promise.resolve(null);
+    }
+    let data = this.countries.get(country);
+    if (!data) {
+      data = load().then((value) => value as Country);
+      data.catch(() => this.countries.delete(country));
+      this.countries.set(country, data);
+    }
+    return data;
+  }
+}
+
+/**
+ * Wraps a location provider so a failed request, such as a location file
+ * that could not be downloaded, is reported to the user and answered with
+ * no locations instead of rejecting in the middle of a form update.
+ * @implements {LocationProvider}
+ */
+
+class SafeLocationProvider implements LocationProvider {
+  private provider: LocationProvider;
+
+  /**
+   * Creates a SafeLocationProvider.
+   * @param {LocationProvider} provider - The provider to wrap.
+   */
+
+  constructor(provider: LocationProvider) {
+    this.provider = provider;
+  }
+
+  getCountries(): Promise<string[]> {
+    return this.request("the countries", [], () => this.provider.getCountries());
+  }
+
+  getStates(country: string): Promise<string[]> {
+    return this.request(`the states of "${country}"`, [], () =>
+      this.provider.getStates(country)
+    );
+  }
+
+  getCities(country: string, state: string): Promise<string[]> {
+    return this.request(`the cities of "${state}, ${country}"`, [], () =>
+      this.provider.getCities(country, state)
+    );
+  }
+
+  lookupPostalCode(postalCode: string): Promise<PostalCodeLocation | null> {
+    return this.request(`the location of "${postalCode}"`, null, () =>
+      this.provider.lookupPostalCode(postalCode)
+    );
+  }
+
+  /**
+   * Runs a request, falling back to a value when it fails.
+   * @param {string} subject - What was requested, for the error log.
+   * @param fallback - The value returned when the request fails.
+   * @param request - Makes the request.
+   * @returns A promise for the result, or for the fallback.
+   * @private
+   */
+
+  private async request<T>(
+    subject: string,
+    fallback: T,
+    request: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await request();
+    } catch (error) {
+      console.error(`Could not load ${subject}`, error);
+      Notification.show(t("form.locationsUnavailable"));
+      return fallback;
+    }
+  }
+}
+
+/**
+ * The provider used by the form and the location validation rules.
+ */
+let locationProvider: LocationProvider = new SafeLocationProvider(
+  new BundledLocationProvider()
+);
+
+/**
+ * Returns the location provider in use.
+ * @returns The location provider.
+ */
+
+export function getLocationProvider(): LocationProvider {
+  return locationProvider;
+}
+
+/**
+ * Replaces the location provider, e.g. with one backed by a remote service.
+ * Call it before the application is created. Failed requests are reported
+ * and answered with no locations.
+ * @param provider - The location provider to use.
+ */
+
+export function setLocationProvider(provider: LocationProvider): void {
+  locationProvider = new SafeLocationProvider(provider);
+}
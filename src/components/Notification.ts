@@ -1,3 +1,11 @@
+/**
+ * An action button shown inside a notification, such as "Undo".
+ */
+export interface NotificationAction {
+    label: string;
+    onClick: () => void;
+}
+
 /**
  * A class for managing and displaying notifications on the screen.
  */
@@ -9,6 +17,33 @@ export class Notification {
      */
     private static instance: HTMLElement;
 
+    /**
+     * Timer that hides the current notification.
+     * @private
+     */
+    private static hideTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    /**
+     * How long the current notification stays up, used to restart the timer
+     * once the pointer or the focus leaves it.
+     * @private
+     */
+    private static duration = 3000;
+
+    /**
+     * Live region that reads each message out to screen reader users. It is
+     * kept apart from the notification itself, which is hidden between
+     * messages and would not be announced reliably.
+     * @private
+     */
+    private static liveRegion: HTMLElement;
+
+    /**
+     * Animation frame that writes the next message into the live region.
+     * @private
+     */
+    private static announceFrame: number | undefined;
+
     /**
      * Creates and retrieves the singleton notification element.
      * If the element doesn't exist, it is created dynamically and styled.
@@ -22,6 +57,19 @@ export class Notification {
             Notification.instance.className = "notification";
             document.body.appendChild(Notification.instance);
 
+            Notification.liveRegion = document.createElement("div");
+            Notification.liveRegion.className = "notification-live";
+            Notification.liveRegion.setAttribute("role", "status");
+            Notification.liveRegion.setAttribute("aria-live", "polite");
+            Notification.liveRegion.setAttribute("aria-atomic", "true");
+            document.body.appendChild(Notification.liveRegion);
+
+            // Keep the notification up while it is being read or its action is being reached.
+            Notification.instance.addEventListener("mouseenter", () => clearTimeout(Notification.hideTimeout));
+            Notification.instance.addEventListener("focusin", () => clearTimeout(Notification.hideTimeout));
+            Notification.instance.addEventListener("mouseleave", () => Notification.scheduleHide());
+            Notification.instance.addEventListener("focusout", () => Notification.scheduleHide());
+
 
             const style = document.createElement("style");
             style.textContent = `
@@ -43,6 +91,31 @@ export class Notification {
             opacity: 1;
             visibility: visible;
           }
+
+          .notification .notification-action {
+            margin: 0 0 0 15px;
+            padding: 0;
+            background: none;
+            border: none;
+            color: #66b2ff;
+            font-weight: bold;
+            text-decoration: underline;
+            cursor: pointer;
+          }
+
+          .notification .notification-action:focus-visible {
+            outline: 2px solid #66b2ff;
+            outline-offset: 2px;
+          }
+
+          .notification-live {
+            position: absolute;
+            width: 1px;
+            height: 1px;
+            overflow: hidden;
+            clip: rect(0 0 0 0);
+            white-space: nowrap;
+          }
         `;
             document.head.appendChild(style);
         }
@@ -50,19 +123,57 @@ export class Notification {
     }
 
     /**
-     * Displays a notification with the given message for a specified duration.
-     * If no duration is specified, the default duration is 3000ms.
+     * Displays a notification with the given message for a specified duration
+     * and announces it to screen reader users. If no duration is specified, the
+     * default duration is 3000ms. The timer is paused while the pointer or the
+     * focus is on the notification.
      * @param message - The message to display in the notification.
      * @param duration - The duration (in milliseconds) for which the notification is shown. Defaults to 3000ms.
+     * @param action - An optional action button. Clicking it runs the action and hides the notification.
      */
 
-    static show(message: string, duration = 3000): void {
+    static show(message: string, duration = 3000, action?: NotificationAction): void {
         const notification = Notification.getInstance();
         notification.textContent = message;
+
+        if (action) {
+            const button = document.createElement("button");
+            button.type = "button";
+            button.className = "notification-action";
+            button.textContent = action.label;
+            button.addEventListener("click", () => {
+                notification.classList.remove("show");
+                action.onClick();
+            });
+            notification.appendChild(button);
+        }
+
+        // Screen readers only announce a change, so the region is emptied
+        // first to have a repeated message, such as a second "Record deleted",
+        // read out again.
+        Notification.liveRegion.textContent = "";
+        if (Notification.announceFrame !== undefined) {
+            cancelAnimationFrame(Notification.announceFrame);
+        }
+        Notification.announceFrame = requestAnimationFrame(() => {
+            Notification.announceFrame = undefined;
+            Notification.liveRegion.textContent = message;
+        });
         notification.classList.add("show");
 
-        setTimeout(() => {
-            notification.classList.remove("show");
-        }, duration);
+        Notification.duration = duration;
+        Notification.scheduleHide();
+    }
+
+    /**
+     * Starts the timer that hides the current notification.
+     * @private
+     */
+
+    private static scheduleHide(): void {
+        clearTimeout(Notification.hideTimeout);
+        Notification.hideTimeout = setTimeout(() => {
+            Notification.instance.classList.remove("show");
+        }, Notification.duration);
     }
 }
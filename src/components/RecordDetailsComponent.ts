@@ -0,0 +1,246 @@
+import { BaseComponent } from "./BaseComponent.ts";
+import type { EventEmitter } from "./EventListener.ts";
+import { FocusTrap } from "./FocusTrap.ts";
+import type { AppEvents, FormData } from "./Interfaces.ts";
+import { formatPhone } from "./countryFormats.ts";
+import { getFieldLabel } from "./formSchema.ts";
+import { formatDate, formatDateTime, formatNumber, t } from "./i18n.ts";
+import { diffRevisions, toRevision } from "./revisions.ts";
+import { calculateAge, escapeHtml } from "./utils.ts";
+
+/**
+ * A side drawer showing every detail of a record: its formatted fields,
+ * its full address, when it was created and last updated and what each
+ * edit changed, with actions to edit or delete it.
+ * @extends BaseComponent
+ */
+
+export class RecordDetailsComponent extends BaseComponent {
+  private eventEmitter: EventEmitter<AppEvents>;
+  private focusTrap: FocusTrap;
+  private record: FormData | null = null;
+
+  /**
+   * Constructs the RecordDetailsComponent.
+   * @param {string} elementId - The ID of the DOM element hosting the drawer.
+   * @param {EventEmitter<AppEvents>} eventEmitter - The event emitter used to request record actions.
+   */
+
+  constructor(elementId: string, eventEmitter: EventEmitter<AppEvents>) {
+    super(elementId);
+    this.focusTrap = new FocusTrap(this.element, () => this.close());
+    this.eventEmitter = eventEmitter;
+    this.addEventListeners();
+  }
+
+  /**
+   * Opens the drawer for a record.
+   * @param {FormData} record - The record to show.
+   */
+
+  open(record: FormData): void {
+    this.focusTrap.activate();
+    this.record = record;
+    this.render();
+  }
+
+  /**
+   * Shows the latest version of the record if the drawer is open, and
+   * closes the drawer if the record no longer exists.
+   * @param {FormData[]} records - The active records.
+   */
+
+  update(records: FormData[]): void {
+    if (!this.record) {
+      return;
+    }
+    const id = this.record.id;
+    const record = records.find((item) => item.id === id);
+    if (record) {
+      this.open(record);
+    } else {
+      this.close();
+    }
+  }
+
+  /**
+   * Closes the drawer.
+   */
+
+  close(): void {
+    this.record = null;
+    this.element.innerHTML = "";
+    this.focusTrap.deactivate();
+  }
+
+  /**
+   * Renders the drawer.
+   */
+
+  render(): void {
+    if (!this.record) {
+      return;
+    }
+    const record = this.record;
+    const age = calculateAge(record.dob) ?? record.age;
+    const address = [record.city, record.state, record.zip, record.country]
+      .filter(Boolean)
+      .map(escapeHtml)
+      .join(", ");
+    const history = record.history || [];
+    const createdAt = history.length > 0 ? history[0].timeStamp : record.timeStamp;
+
+    const details: [string, string][] = [
+      [getFieldLabel("name"), escapeHtml(record.name)],
+      [getFieldLabel("phone"), escapeHtml(formatPhone(String(record.phone ?? ""), record.country))],
+      [getFieldLabel("email"), escapeHtml(record.email)],
+      [getFieldLabel("dob"), escapeHtml(record.dob ? formatDate(record.dob) : "")],
+      [getFieldLabel("age"), typeof age === "number" && !Number.isNaN(age) ? formatNumber(age) : ""],
+      [t("details.address"), address],
+      [t("details.createdAt"), escapeHtml(formatDateTime(createdAt))],
+      [t("details.updatedAt"), history.length > 0 ? escapeHtml(formatDateTime(record.timeStamp)) : t("details.neverUpdated")],
+    ];
+
+    this.element.innerHTML = `
+      <style>
+        .details-backdrop {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          background-color: rgba(0, 0, 0, 0.3);
+          z-index: 900;
+        }
+        .details-drawer {
+          position: fixed;
+          top: 0;
+          right: 0;
+          width: 420px;
+          max-width: 100%;
+          height: 100%;
+          padding: 25px;
+          background: #fff;
+          box-shadow: -4px 0 15px rgba(0, 0, 0, 0.2);
+          overflow-y: auto;
+          z-index: 901;
+        }
+        .details-drawer h2 {
+          margin-bottom: 15px;
+          color: #0062cc;
+          word-break: break-word;
+        }
+        .details-drawer h3 {
+          margin: 20px 0 10px;
+          font-size: 16px;
+        }
+        .details-list {
+          display: grid;
+          grid-template-columns: max-content 1fr;
+          gap: 6px 15px;
+        }
+        .details-list dt {
+          font-weight: bold;
+          color: #555;
+        }
+        .details-list dd {
+          word-break: break-word;
+        }
+        .details-history {
+          list-style: none;
+          font-size: 14px;
+        }
+        .details-history li {
+          padding: 6px 0;
+          border-bottom: 1px solid #eee;
+        }
+        .details-history time {
+          display: block;
+          color: #5a6268;
+          font-size: 12px;
+        }
+        .details-actions {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 10px;
+          margin-top: 20px;
+        }
+      </style>
+      <div class="details-backdrop" data-action="close"></div>
+      <aside class="details-drawer" role="dialog" aria-modal="true" aria-labelledby="detailsTitle">
+        <h2 id="detailsTitle">${escapeHtml(record.name)}</h2>
+        <dl class="details-list">
+          ${details.map(([label, value]) => `<dt>${label}</dt><dd>${value || "—"}</dd>`).join("")}
+        </dl>
+        <h3>${t("details.changes")}</h3>
+        ${this.renderChanges()}
+        <div class="details-actions">
+          <button type="button" data-action="edit">${t("table.edit")}</button>
+          <button type="button" data-action="history">${t("details.fullHistory")}</button>
+          <button type="button" data-action="delete">${t("table.delete")}</button>
+          <button type="button" data-action="close">${t("common.close")}</button>
+        </div>
+      </aside>
+    `;
+    this.focusTrap.afterRender();
+  }
+
+  /**
+   * Renders the changes made by each edit of the record, most recent first.
+   * @returns {string} The HTML for the change list.
+   */
+
+  private renderChanges(): string {
+    if (!this.record) {
+      return "";
+    }
+    const versions = [...(this.record.history || []), toRevision(this.record)];
+    if (versions.length === 1) {
+      return `<p>${t("history.noEdits")}</p>`;
+    }
+
+    const items = versions
+      .slice(1)
+      .map((version, index) => {
+        const changedFields = diffRevisions(versions[index].values, version.values);
+        return `
+          <li>
+            <time>${escapeHtml(formatDateTime(version.timeStamp))}</time>
+            ${changedFields.length > 0
+            ? t("details.changedFields", {
+              fields: changedFields.map((field) => getFieldLabel(field)),
+            })
+            : t("details.noChanges")
+          }
+          </li>
+        `;
+      })
+      .reverse()
+      .join("");
+    return `<ul class="details-history">${items}</ul>`;
+  }
+
+  /**
+   * Adds delegated event listeners for the drawer actions.
+   */
+
+  private addEventListeners(): void {
+    this.element.addEventListener("click", (e) => {
+      const action = (e.target as HTMLElement).getAttribute("data-action");
+      if (!action || !this.record) {
+        return;
+      }
+      const id = this.record.id;
+      if (action === "edit") {
+        this.close();
+        this.eventEmitter.emit("editItem", id);
+      } else if (action === "history") {
+        this.eventEmitter.emit("showHistory", id);
+      } else if (action === "delete") {
+        this.eventEmitter.emit("showDeleteConfirmation", id);
+      } else if (action === "close") {
+        this.close();
+      }
+    });
+  }
+}
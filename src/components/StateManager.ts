@@ -1,8 +1,64 @@
-import type { StateManager, FormData } from "./Interfaces.ts";
+import type {
+  StateManager,
+  FormData,
+  DeletedRecord,
+  RuleOverrides,
+  StorageAdapter,
+  TableLayout,
+} from "./Interfaces.ts";
+import { createEnvelope, migrateEnvelope } from "./migrations.ts";
+import { isLocale, type Locale } from "./i18n.ts";
 
 /**
- * Manages the application state, including storing, retrieving, 
- * and updating data in local storage, as well as handling deleted data.
+ * Storage key holding the active records.
+ */
+const DATA_KEY = "appStateData";
+
+/**
+ * Storage key holding the deleted records.
+ */
+const DELETED_DATA_KEY = "appStateDeletedData";
+
+/**
+ * Storage key holding the user preferences.
+ */
+const PREFERENCES_KEY = "appStatePreferences";
+
+/**
+ * Preference holding the number of days deleted records are kept.
+ */
+const TRASH_RETENTION_PREFERENCE = "trashRetentionDays";
+
+/**
+ * Preference holding the validation rules that replace the schema defaults.
+ */
+const VALIDATION_RULES_PREFERENCE = "validationRuleOverrides";
+
+/**
+ * Preference holding the language chosen by the user.
+ */
+const LANGUAGE_PREFERENCE = "language";
+
+/**
+ * Preference holding the columns, column widths and row density of the table.
+ */
+const TABLE_LAYOUT_PREFERENCE = "tableLayout";
+
+/**
+ * Number of days deleted records are kept unless the user chooses otherwise.
+ */
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Milliseconds in a day.
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Manages the application state, including storing, retrieving,
+ * and updating data through a storage adapter, as well as handling deleted data.
+ * Records are cached in memory so reads are synchronous, while writes are
+ * persisted asynchronously in the order they were made.
  */
 
 export class AppStateManager implements StateManager {
@@ -18,75 +74,179 @@ export class AppStateManager implements StateManager {
    * @private
    */
   private data: FormData[] = [];
-  public deletedData: any = null;
+
+  /**
+   * Array of DeletedRecord objects representing the trash.
+   * @private
+   */
+  private deletedRecords: DeletedRecord[] = [];
+
+  /**
+   * User preferences, keyed by name.
+   * @private
+   */
+  private preferences: Record<string, unknown> = {};
+
+  /**
+   * Storage keys whose saved data could not be loaded.
+   * @private
+   */
+  private loadErrors: string[] = [];
+
+  /**
+   * The storage backend the records are persisted to.
+   * @private
+   */
+  private adapter: StorageAdapter;
+
+  /**
+   * Chain of pending writes, so they reach storage in order.
+   * @private
+   */
+  private pendingWrites: Promise<void> = Promise.resolve();
 
   /**
    * Private constructor to enforce singleton pattern.
-   * Loads data from local storage upon initialization.
+   * @param adapter - The storage backend to persist records to.
    * @private
    */
 
-  private constructor() {
-    this.loadData();
+  private constructor(adapter: StorageAdapter) {
+    this.adapter = adapter;
+  }
+
+  /**
+   * Creates the singleton instance for a storage backend and loads its data.
+   * Must be awaited once at startup, before `getInstance` is used.
+   * @param adapter - The storage backend to persist records to.
+   * @returns The initialized singleton instance of AppStateManager.
+   */
+
+  static async initialize(adapter: StorageAdapter): Promise<AppStateManager> {
+    const instance = new AppStateManager(adapter);
+    await instance.loadData();
+    AppStateManager.instance = instance;
+    return instance;
   }
 
   /**
    * Retrieves the singleton instance of AppStateManager.
-   * If an instance doesn't exist, it creates one.
    * @returns The singleton instance of AppStateManager.
+   * @throws {Error} Throws an error if `initialize` has not completed yet.
    */
 
   static getInstance(): AppStateManager {
     if (!AppStateManager.instance) {
-      AppStateManager.instance = new AppStateManager();
+      throw new Error("AppStateManager has not been initialized");
     }
     return AppStateManager.instance;
   }
 
   /**
-   * Saves the current state data to local storage.
-   * Also stores deleted data in local storage if it exists.
+   * Loads state data, deleted data and preferences from storage, then purges
+   * deleted records older than the retention period.
+   * If no data exists in storage, initializes empty structures.
    * @private
    */
+  private async loadData(): Promise<void> {
+    this.data = await this.readRecords(DATA_KEY);
+    // Older builds stored the deletion time in `timeStamp`
+    this.deletedRecords = (await this.readRecords(DELETED_DATA_KEY)).map(
+      (record) => ({
+        ...record,
+        deletedAt: (record as DeletedRecord).deletedAt || record.timeStamp,
+      })
+    );
+    this.preferences = await this.readPreferences();
+    this.purgeExpiredDeletedData();
+  }
 
-  private saveData(): void {
-    localStorage.setItem("appStateData", JSON.stringify(this.data));
-    if (this.deletedData) {
-      this.deleteData();
+  /**
+   * Reads the stored preferences.
+   * @returns The preferences, or an empty object if none are stored or they cannot be parsed.
+   * @private
+   */
+  private async readPreferences(): Promise<Record<string, unknown>> {
+    const saved = await this.adapter.getItem(PREFERENCES_KEY);
+    if (!saved) {
+      return {};
+    }
+    try {
+      return JSON.parse(saved);
+    } catch (error) {
+      console.error(`Could not load "${PREFERENCES_KEY}"`, error);
+      return {};
     }
   }
 
   /**
-   * Handles the storage of deleted data in local storage.
-   * Adds a timestamp to the deleted data before saving.
+   * Reads and upgrades the records stored under a key.
+   * If the saved data cannot be parsed or migrated, the raw value is copied
+   * to a backup key so it is not lost when the key is next written. The
+   * load error is recorded even if the backup cannot be written.
+   * @param key - The storage key to read.
+   * @returns The stored records, or an empty array.
    * @private
    */
-  private deleteData() {
-    let getDeletedData: any = localStorage.getItem("appStateDeletedData")
-      ? localStorage.getItem("appStateDeletedData")
-      : "[]";
-    this.deletedData.timeStamp = new Date().toISOString();
-    getDeletedData = JSON.parse(getDeletedData);
-    getDeletedData.push(this.deletedData);
+  private async readRecords(key: string): Promise<FormData[]> {
+    const saved = await this.adapter.getItem(key);
+    if (!saved) {
+      return [];
+    }
 
-    localStorage.setItem("appStateDeletedData", JSON.stringify(getDeletedData));
-    this.deletedData = null;
+    try {
+      return migrateEnvelope(JSON.parse(saved)).records as FormData[];
+    } catch (error) {
+      const backupKey = `${key}Backup-${new Date().toISOString()}`;
+      this.loadErrors.push(key);
+      try {
+        await this.adapter.setItem(backupKey, saved);
+        console.error(`Could not load "${key}", raw data kept in "${backupKey}"`, error);
+      } catch (backupError) {
+        console.error(`Could not load "${key}" or back it up in "${backupKey}"`, error, backupError);
+      }
+      return [];
+    }
   }
 
   /**
-   * Loads state data and deleted data from local storage.
-   * If no data exists in local storage, initializes empty structures.
+   * Queues a write of records under a key in the versioned storage format.
+   * @param key - The storage key to write.
+   * @param records - The records to store.
    * @private
    */
-  private loadData(): void {
-    const savedData = localStorage.getItem("appStateData");
-    const savedDeletedData = localStorage.getItem("appStateDeletedData");
-    if (savedData) {
-      this.data = JSON.parse(savedData);
-    }
-    if (savedDeletedData) {
-      this.deletedData = JSON.parse(savedDeletedData);
-    }
+  private writeRecords(key: string, records: FormData[]): void {
+    this.writeItem(key, JSON.stringify(createEnvelope(records)));
+  }
+
+  /**
+   * Queues a write of a value under a key.
+   * @param key - The storage key to write.
+   * @param value - The value to store.
+   * @private
+   */
+  private writeItem(key: string, value: string): void {
+    this.pendingWrites = this.pendingWrites
+      .then(() => this.adapter.setItem(key, value))
+      .catch((error) => console.error(`Could not save "${key}"`, error));
+  }
+
+  /**
+   * Waits until every queued write has been persisted.
+   * @returns A promise that resolves once storage is up to date.
+   */
+
+  flush(): Promise<void> {
+    return this.pendingWrites;
+  }
+
+  /**
+   * Retrieves the storage keys whose saved data could not be loaded.
+   * @returns The keys that failed to load; their raw data is kept in backup keys.
+   */
+
+  getLoadErrors(): string[] {
+    return this.loadErrors;
   }
 
   /**
@@ -99,32 +259,162 @@ export class AppStateManager implements StateManager {
   }
 
   /**
-   * Updates the state data with new data and saves it to local storage.
+   * Updates the state data with new data and saves it to storage.
    * @param newData - The new array of FormData to set as the current state.
    */
 
   setData(newData: FormData[]): void {
     this.data = newData;
-    this.saveData();
+    this.writeRecords(DATA_KEY, this.data);
+  }
+  /**
+   * Retrieves the deleted data.
+   * @returns An array of DeletedRecord objects representing the trash.
+   */
+
+  getDeletedData(): DeletedRecord[] {
+    return this.deletedRecords;
   }
   /**
-   * Retrieves the deleted data from local storage.
-   * @returns An array of FormData objects representing the deleted data.
+   * Sets new deleted data and saves it to storage.
+   * @param newDeletedData - The new array of DeletedRecord to set as the trash.
    */
 
-  getDeletedData(): FormData[] {
-    let getDeletedData: any = localStorage.getItem("appStateDeletedData")
-      ? localStorage.getItem("appStateDeletedData")
-      : "[]";
-    return JSON.parse(getDeletedData);
+  setDeletedData(newDeletedData: DeletedRecord[]): void {
+    this.deletedRecords = newDeletedData;
+    this.writeRecords(DELETED_DATA_KEY, this.deletedRecords);
   }
+
   /**
-   * Sets new deleted data, stores it, and updates the local storage.
-   * @param newDeletedData - The new array of FormData to set as the deleted data.
+   * Retrieves a stored preference.
+   * @param name - The preference name.
+   * @param fallback - The value to use when the preference is not set.
+   * @returns The stored value, or the fallback.
    */
 
-  setDeletedData(newDeletedData: FormData[]): void {
-    this.deletedData = newDeletedData;
-    this.saveData();
+  getPreference<T>(name: string, fallback: T): T {
+    return name in this.preferences ? (this.preferences[name] as T) : fallback;
+  }
+
+  /**
+   * Stores a preference.
+   * @param name - The preference name.
+   * @param value - The value to store. It must be serializable to JSON.
+   */
+
+  setPreference(name: string, value: unknown): void {
+    this.preferences = { ...this.preferences, [name]: value };
+    this.writeItem(PREFERENCES_KEY, JSON.stringify(this.preferences));
+  }
+
+  /**
+   * Retrieves the number of days deleted records are kept.
+   * @returns The retention period in days, or `null` to keep them forever.
+   */
+
+  getTrashRetentionDays(): number | null {
+    return this.getPreference<number | null>(
+      TRASH_RETENTION_PREFERENCE,
+      DEFAULT_TRASH_RETENTION_DAYS
+    );
+  }
+
+  /**
+   * Sets the number of days deleted records are kept. Records that are
+   * already older are not removed here; the caller purges them once the
+   * user has agreed, and otherwise they go when the app next loads.
+   * @param days - The retention period in days, or `null` to keep them forever.
+   */
+
+  setTrashRetentionDays(days: number | null): void {
+    this.setPreference(TRASH_RETENTION_PREFERENCE, days);
+  }
+
+  /**
+   * Retrieves the validation rules that replace the schema defaults.
+   * @returns The rule overrides, keyed by field name.
+   */
+
+  getValidationRuleOverrides(): RuleOverrides {
+    return this.getPreference<RuleOverrides>(VALIDATION_RULES_PREFERENCE, {});
+  }
+
+  /**
+   * Stores the validation rules that replace the schema defaults.
+   * @param overrides - The rule overrides, keyed by field name.
+   */
+
+  setValidationRuleOverrides(overrides: RuleOverrides): void {
+    this.setPreference(VALIDATION_RULES_PREFERENCE, overrides);
+  }
+
+  /**
+   * Retrieves the language chosen by the user.
+   * @returns The language, or `null` if none was chosen or it is no longer supported.
+   */
+
+  getLanguage(): Locale | null {
+    const language = this.getPreference<unknown>(LANGUAGE_PREFERENCE, null);
+    return isLocale(language) ? language : null;
+  }
+
+  /**
+   * Stores the language chosen by the user.
+   * @param language - The language.
+   */
+
+  setLanguage(language: Locale): void {
+    this.setPreference(LANGUAGE_PREFERENCE, language);
+  }
+
+  /**
+   * Retrieves the table layout chosen by the user.
+   * @returns The saved layout, or `null` if the user never changed it.
+   */
+
+  getTableLayout(): TableLayout | null {
+    return this.getPreference<TableLayout | null>(TABLE_LAYOUT_PREFERENCE, null);
+  }
+
+  /**
+   * Stores the table layout chosen by the user.
+   * @param layout - The layout.
+   */
+
+  setTableLayout(layout: TableLayout): void {
+    this.setPreference(TABLE_LAYOUT_PREFERENCE, layout);
+  }
+
+  /**
+   * Lists the deleted records older than a retention period.
+   * @param days - The retention period in days, or `null` to keep them forever.
+   * @returns The records that the retention period has expired.
+   */
+
+  getExpiredDeletedData(days: number | null): DeletedRecord[] {
+    if (days === null) {
+      return [];
+    }
+
+    const cutoff = Date.now() - days * DAY_MS;
+    return this.deletedRecords.filter((record) => {
+      const deletedAt = new Date(record.deletedAt).getTime();
+      return !isNaN(deletedAt) && deletedAt < cutoff;
+    });
+  }
+
+  /**
+   * Permanently removes deleted records older than the retention period.
+   * @returns The number of records removed.
+   */
+
+  purgeExpiredDeletedData(): number {
+    const expiredRecords = this.getExpiredDeletedData(this.getTrashRetentionDays());
+    if (expiredRecords.length > 0) {
+      this.setDeletedData(
+        this.deletedRecords.filter((record) => !expiredRecords.includes(record))
+      );
+    }
+    return expiredRecords.length;
   }
 }
@@ -0,0 +1,148 @@
+import type { StorageAdapter } from "./Interfaces.ts";
+
+/**
+ * Stores values in the browser's `localStorage`.
+ * @implements {StorageAdapter}
+ */
+
+export class LocalStorageAdapter implements StorageAdapter {
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+}
+
+/**
+ * Stores values in an IndexedDB object store, which suits datasets
+ * too large for `localStorage`.
+ * @implements {StorageAdapter}
+ */
+
+export class IndexedDBAdapter implements StorageAdapter {
+  private databaseName: string;
+  private storeName: string;
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Creates an IndexedDBAdapter.
+   * @param {string} [databaseName="appState"] - The name of the IndexedDB database.
+   * @param {string} [storeName="keyValue"] - The name of the object store holding the values.
+   */
+
+  constructor(databaseName = "appState", storeName = "keyValue") {
+    this.databaseName = databaseName;
+    this.storeName = storeName;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.runRequest("readonly", (store) => store.get(key));
+    return typeof value === "string" ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.runRequest("readwrite", (store) => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.runRequest("readwrite", (store) => store.delete(key));
+  }
+
+  /**
+   * Opens the database once, creating the object store on first use.
+   * @returns A promise for the open database.
+   * @private
+   */
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+
+  /**
+   * Runs a single request against the object store in its own transaction.
+   * @param mode - The transaction mode.
+   * @param operation - Creates the request from the object store.
+   * @returns A promise for the request result.
+   * @private
+   */
+
+  private async runRequest<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const database = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * Keeps values in memory only. Useful for tests and throwaway sessions.
+ * @implements {StorageAdapter}
+ */
+
+export class InMemoryAdapter implements StorageAdapter {
+  private values = new Map<string, string>();
+
+  /**
+   * Creates an InMemoryAdapter.
+   * @param {Record<string, string>} [initialValues={}] - Values to start with.
+   */
+
+  constructor(initialValues: Record<string, string> = {}) {
+    Object.entries(initialValues).forEach(([key, value]) =>
+      this.values.set(key, value)
+    );
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+/**
+ * Creates the storage adapter for a backend name.
+ * Unknown names, and IndexedDB where the browser does not support it,
+ * fall back to `localStorage`.
+ * @param backend - The requested backend: `"localStorage"`, `"indexedDB"` or `"memory"`.
+ * @returns The storage adapter.
+ */
+
+export function createStorageAdapter(backend?: string | null): StorageAdapter {
+  if (backend === "indexedDB" && typeof indexedDB !== "undefined") {
+    return new IndexedDBAdapter();
+  }
+  if (backend === "memory") {
+    return new InMemoryAdapter();
+  }
+  return new LocalStorageAdapter();
+}
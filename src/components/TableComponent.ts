@@ -1,220 +1,1792 @@
 import { BaseComponent } from "./BaseComponent.ts";
 import type { EventEmitter } from "./EventListener.ts";
-import type { FormData } from "./Interfaces.ts";
+import { FOCUSABLE_SELECTOR, FocusTrap } from "./FocusTrap.ts";
+import type {
+  AppEvents,
+  FormData,
+  LocationProvider,
+  RecordValues,
+  TableLayout,
+  TableLayoutColumn,
+} from "./Interfaces.ts";
+import { Notification } from "./Notification.ts";
+import { AppStateManager } from "./StateManager.ts";
+import { formatPhone } from "./countryFormats.ts";
+import {
+  buildRecordValues,
+  formSchema,
+  getDependentFields,
+  getFieldLabel,
+  getFieldSchema,
+} from "./formSchema.ts";
+import { formatDate, formatDateTime, formatNumber, t } from "./i18n.ts";
+import { diffRevisions, getRecordValues } from "./revisions.ts";
+import { debounce, escapeHtml, highlightMatches } from "./utils.ts";
+import { validateField, validateFieldAsync } from "./validation.ts";
+
+/**
+ * Direction in which a table column is sorted.
+ */
+type SortDirection = "asc" | "desc";
+
+/**
+ * Describes a column rendered by the table.
+ */
+interface TableColumn {
+  key: keyof FormData;
+  /** Returns the column header in the current language. */
+  label: () => string;
+}
+
+/**
+ * The timestamp column, shown after the schema fields.
+ */
+const TIMESTAMP_COLUMN: TableColumn = {
+  key: "timeStamp",
+  label: () => t("table.timestamp"),
+};
+
+/**
+ * Every column the table can show, in default order. These are also the
+ * fields matched by the global search, whether they are shown or not.
+ */
+const ALL_COLUMNS: TableColumn[] = [
+  ...formSchema.map((field) => ({
+    key: field.name,
+    label: () => getFieldLabel(field.name),
+  })),
+  TIMESTAMP_COLUMN,
+];
+
+/**
+ * Width in pixels a column cannot be resized below.
+ */
+const MIN_COLUMN_WIDTH = 60;
+
+/**
+ * How many pixels a column grows or shrinks per key press when resized
+ * with the keyboard.
+ */
+const COLUMN_RESIZE_STEP = 10;
+
+/**
+ * Rows of the table head: the column headers and the filter row.
+ */
+const HEADER_ROW_COUNT = 2;
+
+/**
+ * Returns the layout the table starts with: the fields marked
+ * `showInTable` and the timestamp, in schema order.
+ * @returns The default layout.
+ */
+
+function getDefaultLayout(): TableLayout {
+  return {
+    columns: ALL_COLUMNS.map((column) => ({
+      key: column.key,
+      visible: getFieldSchema(column.key)?.showInTable ?? true,
+      width: null,
+    })),
+    density: "comfortable",
+  };
+}
+
+/**
+ * Rebuilds a saved table layout, dropping columns that no longer exist and
+ * appending columns added since it was saved with their default visibility.
+ * @param saved - The saved layout, or `null` if there is none.
+ * @returns The layout to use.
+ */
+
+function restoreLayout(saved: TableLayout | null): TableLayout {
+  const defaults = getDefaultLayout();
+  if (!saved || !Array.isArray(saved.columns)) {
+    return defaults;
+  }
+
+  const columns: TableLayoutColumn[] = [];
+  saved.columns.forEach((column) => {
+    if (
+      ALL_COLUMNS.some(({ key }) => key === column?.key) &&
+      !columns.some(({ key }) => key === column.key)
+    ) {
+      columns.push({
+        key: column.key,
+        visible: column.visible !== false,
+        width:
+          typeof column.width === "number" && column.width >= MIN_COLUMN_WIDTH
+            ? column.width
+            : null,
+      });
+    }
+  });
+  defaults.columns.forEach((column) => {
+    if (!columns.some(({ key }) => key === column.key)) {
+      columns.push(column);
+    }
+  });
+  if (!columns.some((column) => column.visible)) {
+    return defaults;
+  }
+  return {
+    columns,
+    density: saved.density === "compact" ? "compact" : "comfortable",
+  };
+}
+
+/**
+ * A row being edited in place.
+ */
+interface CellEdit {
+  id: string;
+
+  /**
+   * The field of the cell that was double-clicked.
+   */
+  field: keyof RecordValues;
+
+  /**
+   * The fields being edited: the cell's field, followed by the state and
+   * city when a country or state is edited.
+   */
+  fields: (keyof RecordValues)[];
+
+  /**
+   * The raw values of every field, including the edited ones.
+   */
+  values: Partial<Record<string, string>>;
+
+  /**
+   * The choices of the dropdown fields being edited.
+   */
+  options: Partial<Record<keyof RecordValues, string[]>>;
+  errors: Partial<Record<keyof RecordValues, string>>;
+}
+
+/**
+ * The location fields, each depending on the one before.
+ */
+const LOCATION_FIELDS: (keyof RecordValues)[] = ["country", "state", "city"];
+
+/**
+ * Delay in milliseconds before a click on a row opens its details, so a
+ * double-click can edit a cell instead.
+ */
+const ROW_CLICK_DELAY_MS = 250;
+
+/**
+ * Page sizes offered by the page-size selector.
+ */
+const PAGE_SIZES = [5, 10, 25, 50];
+
+/**
+ * Delay in milliseconds before a search query is applied while typing.
+ */
+const SEARCH_DEBOUNCE_MS = 300;
 
 /**
  * Represents a table component that renders data in a tabular format
- * and allows actions like editing, deleting, and restoring entries.
+ * and allows actions like editing, viewing the history of and deleting entries.
+ * Rows can be sorted by clicking a column header, narrowed with the
+ * per-column filter row or the global search box and browsed page by page.
+ * Selected rows can be deleted, exported or updated together. Columns can
+ * be shown, hidden, reordered by dragging and resized, and the layout is
+ * saved with the user preferences. Double-clicking a cell edits it in place.
+ * The table is a keyboard grid with a single tab stop, moved with the arrow
+ * keys.
  */
 
-export class TableComponent extends BaseComponent {
-  private eventEmitter: EventEmitter;
+export class TableComponent extends BaseComponent {
+  private eventEmitter: EventEmitter<AppEvents>;
+  private locationProvider: LocationProvider;
+  private stateManager = AppStateManager.getInstance();
+  private layout: TableLayout = getDefaultLayout();
+  private isColumnChooserOpen = false;
+  private draggedColumn: keyof FormData | null = null;
+  private data: FormData[] = [];
+  private sortKey: keyof FormData | null = null;
+  private sortDirection: SortDirection = "asc";
+  private filters: Partial<Record<keyof FormData, string>> = {};
+  private currentPage = 1;
+  private pageSize = PAGE_SIZES[1];
+  private searchQuery = "";
+  private selectedIds = new Set<string>();
+  private cellEdit: CellEdit | null = null;
+  private rowClickTimer: ReturnType<typeof setTimeout> | undefined;
+  private activeCell = { row: 0, column: 0 };
+  private restoreGridFocus = false;
+  private applySearch = debounce((query: string) => {
+    this.searchQuery = query;
+    this.currentPage = 1;
+    this.renderRows();
+  }, SEARCH_DEBOUNCE_MS);
+
+  /**
+   * Constructs a TableComponent instance.
+   * @param {string} elementId - The ID of the DOM element where the table is rendered.
+   * @param {EventEmitter} eventEmitter - An event emitter for handling custom events.
+   * @param {LocationProvider} locationProvider - The source of the countries, states and cities offered when editing a cell.
+   */
+
+  constructor(
+    elementId: string,
+    eventEmitter: EventEmitter<AppEvents>,
+    locationProvider: LocationProvider
+  ) {
+    super(elementId);
+    this.eventEmitter = eventEmitter;
+    this.locationProvider = locationProvider;
+    this.addEventListeners();
+  }
+  /**
+   * Renders the table with the provided data, in the saved column layout.
+   * Sort, filter, search and page state are kept across renders.
+   * @param {FormData[]} [data] - An optional array of data objects to populate the table.
+   */
+
+  render(data?: FormData[]): void {
+    if (data) {
+      this.data = data;
+    }
+    const focusSelector = this.getFocusSelector();
+    this.restoreGridFocus = this.isGridFocused();
+    const editId = this.cellEdit?.id;
+    if (editId && !this.data.some((item) => item.id === editId)) {
+      this.cellEdit = null;
+    }
+    this.layout = restoreLayout(this.stateManager.getTableLayout());
+    const columns = this.getVisibleColumns();
+
+    const headerCells = columns.map(
+      (column) => `
+              <th
+                class="sortable"
+                data-sort="${column.key}"
+                data-drag-column="${column.key}"
+                draggable="true"
+                aria-sort="none"
+                ${column.width ? `style="width: ${column.width}px"` : ""}
+              >
+                ${column.label()}<span class="sort-indicator" data-sort-indicator="${column.key}" aria-hidden="true"></span>
+                <span class="column-resizer" data-resize="${column.key}" title="${t("table.resizeColumn")}" aria-hidden="true"></span>
+              </th>`
+    ).join("");
+
+    const filterCells = columns.map(
+      (column) => `
+              <th>
+                <input
+                  type="search"
+                  class="column-filter"
+                  data-filter="${column.key}"
+                  placeholder="${t("table.filterPlaceholder", { label: column.label() })}"
+                  aria-label="${t("table.filterPlaceholder", { label: column.label() })}"
+                  value="${escapeHtml(this.filters[column.key] || "")}"
+                />
+              </th>`
+    ).join("");
+
+    const visibleCount = columns.length;
+    const columnOptions = this.layout.columns
+      .map((layoutColumn) => {
+        const column = this.getColumn(layoutColumn.key);
+        const isLastVisible = layoutColumn.visible && visibleCount === 1;
+        return `
+          <li draggable="true" data-drag-column="${layoutColumn.key}">
+            <span class="drag-handle" aria-hidden="true">⠿</span>
+            <label>
+              <input
+                type="checkbox"
+                data-column-visible="${layoutColumn.key}"
+                ${layoutColumn.visible ? "checked" : ""}
+                ${isLastVisible ? "disabled" : ""}
+              />
+              ${column.label()}
+            </label>
+            <button type="button" class="move-column" data-move-column="${layoutColumn.key}" data-move="up" title="${t("table.moveColumnUp", { label: column.label() })}" aria-label="${t("table.moveColumnUp", { label: column.label() })}">↑</button>
+            <button type="button" class="move-column" data-move-column="${layoutColumn.key}" data-move="down" title="${t("table.moveColumnDown", { label: column.label() })}" aria-label="${t("table.moveColumnDown", { label: column.label() })}">↓</button>
+          </li>`;
+      })
+      .join("");
+
+    const pageSizeOptions = PAGE_SIZES.map(
+      (size) =>
+        `<option value="${size}" ${size === this.pageSize ? "selected" : ""}>${size}</option>`
+    ).join("");
+
+    this.element.innerHTML = `
+      <style>
+        .table-container {
+          margin-top: 20px;
+          overflow-x: auto;
+          background-color: #f8f9fa;
+          border-radius: 8px;
+          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+        }
+        table {
+          width: 100%;
+          border-collapse: separate;
+          border-spacing: 0;
+          background-color: #fff;
+          overflow: hidden;
+        }
+        th, td {
+          padding: 15px;
+          text-align: left;
+          border-bottom: 1px solid #e0e0e0;
+        }
+        th {
+          background-color: #0062cc;
+          color: white;
+          font-weight: bold;
+          text-transform: uppercase;
+          letter-spacing: 0.5px;
+          font-size: 14px;
+        }
+        th.sortable {
+          cursor: pointer;
+          user-select: none;
+        }
+        th.sortable:hover {
+          background-color: #0056b3;
+        }
+        th:focus-visible,
+        td:focus-visible {
+          outline: 3px solid #0062cc;
+          outline-offset: -3px;
+        }
+        thead tr:first-child th:focus-visible {
+          outline-color: #ffc107;
+        }
+        th.sortable {
+          position: relative;
+        }
+        th.drop-target {
+          box-shadow: inset 3px 0 0 #ffc107;
+        }
+        .column-resizer {
+          position: absolute;
+          top: 0;
+          right: 0;
+          width: 6px;
+          height: 100%;
+          cursor: col-resize;
+        }
+        .column-resizer:hover {
+          background-color: rgba(255, 255, 255, 0.4);
+        }
+        .table-container.compact th,
+        .table-container.compact td {
+          padding: 6px 8px;
+        }
+        .table-container.compact .edit,
+        .table-container.compact .history,
+        .table-container.compact .delete {
+          padding: 4px 8px;
+          font-size: 14px;
+        }
+        .column-chooser-wrapper {
+          position: relative;
+        }
+        .column-chooser {
+          position: absolute;
+          right: 0;
+          top: 100%;
+          z-index: 10;
+          width: 240px;
+          padding: 10px;
+          background-color: #fff;
+          border: 1px solid #ddd;
+          border-radius: 4px;
+          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+        }
+        .column-chooser[hidden] {
+          display: none;
+        }
+        .column-chooser p {
+          font-size: 12px;
+          color: #5a6268;
+        }
+        .column-chooser ul {
+          list-style: none;
+          margin: 5px 0 10px;
+        }
+        .column-chooser li {
+          display: flex;
+          align-items: center;
+          gap: 5px;
+          padding: 2px 0;
+          cursor: grab;
+        }
+        .column-chooser li.drop-target {
+          border-top: 2px solid #ffc107;
+        }
+        .column-chooser label {
+          display: flex;
+          align-items: center;
+          gap: 5px;
+          margin: 0;
+          font-weight: normal;
+        }
+        .column-chooser input[type="checkbox"] {
+          width: auto;
+          margin: 0;
+        }
+        .column-chooser .move-column {
+          margin: 0;
+          padding: 0 6px;
+        }
+        .column-chooser label + .move-column {
+          margin-left: auto;
+        }
+        .drag-handle {
+          color: #5a6268;
+        }
+        .table-toolbar {
+          display: flex;
+          align-items: center;
+          gap: 15px;
+          margin-top: 20px;
+        }
+        .table-toolbar input#globalSearch {
+          flex: 1;
+          margin: 0;
+        }
+        .search-summary {
+          white-space: nowrap;
+          color: #5a6268;
+        }
+        .match-hint {
+          font-size: 12px;
+          color: #5a6268;
+        }
+        mark {
+          background-color: #fff3cd;
+          padding: 0;
+        }
+        .sort-indicator {
+          margin-left: 5px;
+        }
+        .filter-row th {
+          padding: 8px;
+          background-color: #e9ecef;
+        }
+        .filter-row input.column-filter {
+          width: 100%;
+          margin: 0;
+          padding: 6px 8px;
+          font-size: 13px;
+          border: 1px solid #ced4da;
+          border-radius: 4px;
+          text-transform: none;
+        }
+        tr:nth-child(even) {
+          background-color: #f8f9fa;
+        }
+        tr:hover {
+          background-color: #e9ecef;
+          transition: background-color 0.3s ease;
+        }
+        tr.record-row {
+          cursor: pointer;
+        }
+        tr.record-row[aria-selected="true"] {
+          background-color: #e7f1ff;
+        }
+        td .cell-editor {
+          width: 100%;
+          min-width: 120px;
+          margin: 0;
+          padding: 6px;
+          font-size: 14px;
+        }
+        .cell-edit-label {
+          display: block;
+          margin-top: 5px;
+          font-size: 12px;
+        }
+        .cell-error {
+          color: #dc3545;
+          font-size: 12px;
+        }
+        .cell-edit-hint {
+          color: #5a6268;
+          font-size: 12px;
+        }
+        .action-buttons {
+          display: flex;
+          justify-content: space-around;
+          gap: 5px;
+        }
+        .edit, .history, .delete {
+          padding: 8px 12px;
+          border: none;
+          border-radius: 4px;
+          cursor: pointer;
+          font-size: 16px;
+          transition: all 0.3s ease;
+        }
+        .edit {
+          background-color: #28a745;
+          color: white;
+        }
+        .edit:hover {
+          background-color: #218838;
+        }
+        .history {
+          background-color: #6f42c1;
+          color: white;
+        }
+        .history:hover {
+          background-color: #5a32a3;
+        }
+        .delete {
+          background-color: #dc3545;
+          color: white;
+        }
+        .delete:hover {
+          background-color: #c82333;
+        }
+        .select-column {
+          width: 1%;
+        }
+        .select-column input[type="checkbox"] {
+          width: auto;
+          margin: 0;
+        }
+        .bulk-actions {
+          display: flex;
+          align-items: center;
+          flex-wrap: wrap;
+          gap: 10px;
+          margin-top: 10px;
+          padding: 10px 15px;
+          background-color: #e7f1ff;
+          border-radius: 4px;
+        }
+        .bulk-actions[hidden] {
+          display: none;
+        }
+        .bulk-actions span {
+          margin-right: auto;
+          font-weight: bold;
+        }
+        .pagination {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          flex-wrap: wrap;
+          gap: 10px;
+          padding: 10px 15px;
+        }
+        .pagination select {
+          width: auto;
+          padding: 4px 8px;
+          font-size: 14px;
+        }
+        .pagination button:disabled {
+          cursor: not-allowed;
+          opacity: 0.5;
+        }
+        @media (max-width: 768px) {
+          th, td {
+            padding: 10px;
+          }
+          .action-buttons {
+            flex-direction: column;
+            gap: 5px;
+          }
+          .edit, .history, .delete {
+            width: 100%;
+          }
+        }
+      </style>
+      <div class="table-toolbar">
+        <input
+          type="search"
+          id="globalSearch"
+          placeholder="${t("table.searchPlaceholder")}"
+          aria-label="${t("table.searchPlaceholder")}"
+          value="${escapeHtml(this.searchQuery)}"
+        />
+        <span id="searchSummary" class="search-summary" role="status"></span>
+        <button type="button" id="importButton">${t("table.import")}</button>
+        <button type="button" id="exportButton">${t("table.export")}</button>
+        <button type="button" id="duplicatesButton">${t("table.duplicates")}</button>
+        <button type="button" id="trashButton">${t("table.trash")}</button>
+        <div class="column-chooser-wrapper">
+          <button type="button" id="columnsButton" aria-expanded="${this.isColumnChooserOpen}" aria-controls="columnChooser">${t("table.columns")}</button>
+          <div id="columnChooser" class="column-chooser" ${this.isColumnChooserOpen ? "" : "hidden"}>
+            <p>${t("table.columnsHint")}</p>
+            <ul>${columnOptions}</ul>
+            <label>
+              <input type="checkbox" id="compactDensity" ${this.layout.density === "compact" ? "checked" : ""} />
+              ${t("table.compact")}
+            </label>
+            <button type="button" id="resetLayoutButton">${t("table.resetLayout")}</button>
+          </div>
+        </div>
+      </div>
+      <div id="bulkActions" class="bulk-actions" hidden>
+        <span id="selectionSummary" role="status"></span>
+        <button type="button" data-bulk="update">${t("table.bulkUpdate")}</button>
+        <button type="button" data-bulk="export">${t("table.bulkExport")}</button>
+        <button type="button" data-bulk="delete">${t("table.bulkDelete")}</button>
+        <button type="button" data-bulk="clear">${t("table.clearSelection")}</button>
+      </div>
+      <div class="table-container ${this.layout.density === "compact" ? "compact" : ""}">
+        <p id="tableKeyboardHint" class="visually-hidden">${t("table.keyboardHint")}</p>
+        <table role="grid" aria-label="${t("table.label")}" aria-describedby="tableKeyboardHint">
+          <thead>
+            <tr>
+              <th class="select-column">
+                <input type="checkbox" id="selectAllRows" title="${t("table.selectAll")}" aria-label="${t("table.selectAll")}" />
+              </th>
+              ${headerCells}
+              <th>${t("table.actions")}</th>
+            </tr>
+            <tr class="filter-row">
+              <th></th>
+              ${filterCells}
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+          </tbody>
+        </table>
+        <div class="pagination">
+          <label>
+            ${t("table.rowsPerPage")}
+            <select id="pageSizeSelect">${pageSizeOptions}</select>
+          </label>
+          <span id="pageInfo"></span>
+          <div>
+            <button data-page="prev">${t("table.previous")}</button>
+            <button data-page="next">${t("table.next")}</button>
+          </div>
+        </div>
+      </div>
+
+    `;
+
+    this.renderRows();
+    if (focusSelector) {
+      this.element.querySelector<HTMLElement>(focusSelector)?.focus();
+    }
+  }
+
+  /**
+   * Re-renders the table body, sort indicators and pagination controls
+   * from the current sort, filter and page state. Selected rows that no
+   * longer match the search and filters are deselected.
+   */
+
+  private renderRows(): void {
+    const hadGridFocus = this.restoreGridFocus || this.isGridFocused();
+    this.restoreGridFocus = false;
+    const columns = this.getVisibleColumns();
+    const filteredData = this.getFilteredData();
+    const filteredIds = new Set(filteredData.map((item) => item.id));
+    this.selectedIds.forEach((id) => {
+      if (!filteredIds.has(id)) {
+        this.selectedIds.delete(id);
+      }
+    });
+    const totalPages = Math.max(1, Math.ceil(filteredData.length / this.pageSize));
+    this.currentPage = Math.min(Math.max(this.currentPage, 1), totalPages);
+
+    const start = (this.currentPage - 1) * this.pageSize;
+    const pageData = filteredData.slice(start, start + this.pageSize);
+
+    const tableRows =
+      pageData.length > 0
+        ? pageData
+          .map(
+            (item) => `
+      <tr class="record-row" data-id="${item.id}" aria-selected="${this.selectedIds.has(item.id)}">
+        <td class="select-column">
+          <input type="checkbox" class="row-select" data-id="${item.id}" title="${t("table.selectRow")}" aria-label="${t("table.selectRecord", { name: escapeHtml(item.name) })}" ${this.selectedIds.has(item.id) ? "checked" : ""} />
+        </td>
+        ${columns.map(
+              (column, index) => `<td data-column="${column.key}">${this.cellEdit?.id === item.id &&
+                this.cellEdit.fields.some((field) => field === column.key)
+                ? this.renderCellEditor(this.cellEdit, column.key as keyof RecordValues)
+                : `${highlightMatches(
+                  this.formatCell(item, column.key),
+                  this.searchQuery
+                )}${index === 0 ? this.renderMatchHints(item) : ""}`
+              }</td>`
+            ).join("")}
+        <td>
+          <div class="action-buttons">
+            <button class="edit" data-id="${item.id}" title="${t("table.edit")}" aria-label="${t("table.editRecord", { name: escapeHtml(item.name) })}"><span aria-hidden="true">✏️</span></button>
+            <button class="history" data-id="${item.id}" title="${t("table.history")}" aria-label="${t("table.historyRecord", { name: escapeHtml(item.name) })}"><span aria-hidden="true">🕘</span></button>
+            <button class="delete" data-id="${item.id}" title="${t("table.delete")}" aria-label="${t("table.deleteRecord", { name: escapeHtml(item.name) })}"><span aria-hidden="true">🗑️</span></button>
+          </div>
+        </td>
+      </tr>
+    `
+          )
+          .join("")
+        : `<tr><td colspan="${columns.length + 2}">${t("table.noData")}</td></tr>`;
+
+    const tbody = this.element.querySelector("tbody") as HTMLElement;
+    tbody.innerHTML = tableRows;
+
+    this.element
+      .querySelectorAll<HTMLElement>("[data-sort-indicator]")
+      .forEach((indicator) => {
+        const key = indicator.getAttribute("data-sort-indicator");
+        indicator.textContent =
+          key === this.sortKey ? (this.sortDirection === "asc" ? "▲" : "▼") : "";
+        indicator
+          .closest("th")
+          ?.setAttribute(
+            "aria-sort",
+            key === this.sortKey
+              ? this.sortDirection === "asc" ? "ascending" : "descending"
+              : "none"
+          );
+      });
+
+    const searchSummary = this.element.querySelector(
+      "#searchSummary"
+    ) as HTMLElement;
+    searchSummary.textContent = t("table.searchSummary", {
+      matches: filteredData.length,
+      count: this.data.length,
+    });
+
+    const pageInfo = this.element.querySelector("#pageInfo") as HTMLElement;
+    pageInfo.textContent = t("table.pageInfo", {
+      page: this.currentPage,
+      pages: totalPages,
+      count: filteredData.length,
+    });
+
+    const prevButton = this.element.querySelector(
+      '[data-page="prev"]'
+    ) as HTMLButtonElement;
+    const nextButton = this.element.querySelector(
+      '[data-page="next"]'
+    ) as HTMLButtonElement;
+    prevButton.disabled = this.currentPage <= 1;
+    nextButton.disabled = this.currentPage >= totalPages;
+
+    this.updateSelection(filteredData);
+    this.updateGridTabindex();
+    if (hadGridFocus && !this.isGridFocused()) {
+      this.focusCell(this.activeCell.row, this.activeCell.column);
+    }
+  }
+
+  /**
+   * Updates the select-all checkbox and the bulk action bar from the selection.
+   * @param {FormData[]} filteredData - The rows matching the current search and filters.
+   */
+
+  private updateSelection(filteredData: FormData[] = this.getFilteredData()): void {
+    const selectAll = this.element.querySelector(
+      "#selectAllRows"
+    ) as HTMLInputElement;
+    selectAll.checked =
+      filteredData.length > 0 && this.selectedIds.size === filteredData.length;
+    selectAll.indeterminate =
+      this.selectedIds.size > 0 && this.selectedIds.size < filteredData.length;
+
+    const bulkActions = this.element.querySelector(
+      "#bulkActions"
+    ) as HTMLElement;
+    bulkActions.hidden = this.selectedIds.size === 0;
+    (this.element.querySelector("#selectionSummary") as HTMLElement).textContent =
+      t("table.selected", { count: this.selectedIds.size });
+  }
+
+  /**
+   * Returns the selected rows, in the current sort order.
+   * @returns {FormData[]} The selected rows.
+   */
+
+  getSelectedData(): FormData[] {
+    return this.getFilteredData().filter((item) => this.selectedIds.has(item.id));
+  }
+
+  /**
+   * Returns every row matching the current search and filters, in the
+   * current sort order and across all pages.
+   * @returns {FormData[]} The rows in the current table view.
+   */
+
+  getVisibleData(): FormData[] {
+    return this.getFilteredData();
+  }
+
+  /**
+   * Renders the editors of a cell being edited in place. The cell that was
+   * double-clicked also holds the editors of cascading location fields
+   * whose columns are hidden and the keyboard hint.
+   * @param {CellEdit} edit - The edit in progress.
+   * @param {keyof RecordValues} name - The field of the cell.
+   * @returns {string} The HTML for the cell.
+   */
+
+  private renderCellEditor(edit: CellEdit, name: keyof RecordValues): string {
+    if (name !== edit.field) {
+      return this.renderFieldEditor(edit, name);
+    }
+
+    const visibleKeys = this.getVisibleColumns().map((column) => column.key);
+    const hiddenEditors = edit.fields
+      .filter((field) => field !== name && !visibleKeys.includes(field))
+      .map(
+        (field) => `
+          <label class="cell-edit-label">
+            ${getFieldLabel(field)}
+            ${this.renderFieldEditor(edit, field)}
+          </label>`
+      )
+      .join("");
+
+    return `
+      ${this.renderFieldEditor(edit, name)}
+      ${hiddenEditors}
+      <div class="cell-edit-hint">${t("table.editHint")}</div>
+    `;
+  }
+
+  /**
+   * Renders the input or dropdown editing one field, with its error.
+   * @param {CellEdit} edit - The edit in progress.
+   * @param {keyof RecordValues} name - The field.
+   * @returns {string} The HTML for the editor.
+   */
+
+  private renderFieldEditor(edit: CellEdit, name: keyof RecordValues): string {
+    const field = getFieldSchema(name);
+    const value = edit.values[name] ?? "";
+    const label = getFieldLabel(name);
+    const error = edit.errors[name];
+    const describedBy = `aria-describedby="cell-error-${name}" aria-invalid="${!!error}"`;
+    let control: string;
+    if (field?.widget === "select") {
+      const options = edit.options[name] ?? [];
+      const choices = value && !options.includes(value) ? [value, ...options] : options;
+      control = `
+        <select class="cell-editor" data-edit-field="${name}" aria-label="${label}" ${describedBy}>
+          <option value="">${t("table.chooseValue", { label })}</option>
+          ${choices
+          .map(
+            (option) =>
+              `<option value="${escapeHtml(option)}" ${option === value ? "selected" : ""}>${escapeHtml(option)}</option>`
+          )
+          .join("")}
+        </select>`;
+    } else {
+      control = `<input class="cell-editor" data-edit-field="${name}" type="${field?.type ?? "text"}" value="${escapeHtml(value)}" aria-label="${label}" ${describedBy} />`;
+    }
+    return `${control}<div class="cell-error" id="cell-error-${name}" data-error-for="${name}" aria-live="polite">${error ? escapeHtml(error) : ""}</div>`;
+  }
+
+  /**
+   * Starts editing a cell in place. Editing a country or state also edits
+   * the location fields below it, which must be chosen again. Derived
+   * fields, such as the age, and the timestamp cannot be edited.
+   * @param {string} id - The ID of the record.
+   * @param {keyof RecordValues} name - The field of the cell.
+   */
+
+  private async startCellEdit(id: string, name: keyof RecordValues): Promise<void> {
+    const record = this.data.find((item) => item.id === id);
+    const field = getFieldSchema(name);
+    if (!record || !field || field.derive) {
+      return;
+    }
+
+    const values: Partial<Record<string, string>> = {};
+    formSchema.forEach(({ name: fieldName }) => {
+      values[fieldName] = String(record[fieldName] ?? "");
+    });
+    const locationIndex = LOCATION_FIELDS.indexOf(name);
+    const edit: CellEdit = {
+      id,
+      field: name,
+      fields: locationIndex === -1 ? [name] : LOCATION_FIELDS.slice(locationIndex),
+      values,
+      options: {},
+      errors: {},
+    };
+    this.cellEdit = edit;
+    await this.loadCellOptions(edit);
+    if (this.cellEdit === edit) {
+      this.renderRows();
+      this.focusCellEditor(name);
+    }
+  }
+
+  /**
+   * Loads the choices of the location fields being edited, each for the
+   * values chosen above it.
+   * @param {CellEdit} edit - The edit in progress.
+   */
+
+  private async loadCellOptions(edit: CellEdit): Promise<void> {
+    const { country = "", state = "" } = edit.values;
+    for (const name of edit.fields) {
+      if (name === "country") {
+        edit.options.country = await this.locationProvider.getCountries();
+      } else if (name === "state") {
+        edit.options.state = country ? await this.locationProvider.getStates(country) : [];
+      } else if (name === "city") {
+        edit.options.city =
+          country && state ? await this.locationProvider.getCities(country, state) : [];
+      }
+    }
+  }
+
+  /**
+   * Stores a value typed into a cell editor and checks it with the
+   * synchronous rules of its field, as the form does while typing.
+   * @param {keyof RecordValues} name - The field.
+   * @param {string} value - The new value.
+   */
+
+  private updateCellValue(name: keyof RecordValues, value: string): void {
+    const edit = this.cellEdit;
+    if (!edit) {
+      return;
+    }
+    edit.values[name] = value;
+    const error = validateField(name, value, { editId: edit.id, values: edit.values });
+    if (error) {
+      edit.errors[name] = error;
+    } else {
+      delete edit.errors[name];
+    }
+    const errorElement = this.element.querySelector(`[data-error-for="${name}"]`);
+    if (errorElement) {
+      errorElement.textContent = error ?? "";
+    }
+    this.element
+      .querySelector(`.cell-editor[data-edit-field="${name}"]`)
+      ?.setAttribute("aria-invalid", String(!!error));
+  }
+
+  /**
+   * Stores a value chosen in a cell dropdown. Choosing a country or state
+   * clears the location fields below it and loads their choices.
+   * @param {keyof RecordValues} name - The field.
+   * @param {string} value - The chosen value.
+   */
+
+  private async changeCellSelect(name: keyof RecordValues, value: string): Promise<void> {
+    const edit = this.cellEdit;
+    if (!edit) {
+      return;
+    }
+    this.updateCellValue(name, value);
+    const below = LOCATION_FIELDS.slice(LOCATION_FIELDS.indexOf(name) + 1);
+    if (!LOCATION_FIELDS.includes(name) || below.length === 0) {
+      return;
+    }
+    below.forEach((field) => {
+      edit.values[field] = "";
+      delete edit.errors[field];
+    });
+    await this.loadCellOptions(edit);
+    if (this.cellEdit === edit) {
+      this.renderRows();
+      this.focusCellEditor(below[0]);
+    }
+  }
+
+  /**
+   * Validates the edited row with every rule of the edited fields and the
+   * fields depending on them, including async checks, and saves it through
+   * the same update as the form. Derived fields are computed again first.
+   * When a dependent field that cannot be edited here becomes invalid,
+   * such as the phone number after a change of country, the row is opened
+   * in the form with the edited values so it can be fixed there.
+   */
+
+  private async saveCellEdit(): Promise<void> {
+    const edit = this.cellEdit;
+    const record = this.data.find((item) => item.id === edit?.id);
+    if (!edit || !record) {
+      this.cancelCellEdit();
+      return;
+    }
+
+    const values = { ...edit.values };
+    const checkedFields = new Set(edit.fields);
+    edit.fields.forEach((name) =>
+      getDependentFields(name).forEach((field) => {
+        checkedFields.add(field.name);
+        const derived = field.derive?.(values);
+        if (derived !== undefined && derived !== null) {
+          values[field.name] = derived;
+        }
+      })
+    );
+
+    const errors: Partial<Record<keyof RecordValues, string>> = {};
+    for (const name of checkedFields) {
+      const error = await validateFieldAsync(name, values[name] ?? "", {
+        editId: record.id,
+        values,
+      });
+      if (error) {
+        errors[name] = error;
+      }
+    }
+    if (this.cellEdit !== edit) {
+      return;
+    }
+
+    const otherFields = (Object.keys(errors) as (keyof RecordValues)[]).filter(
+      (name) => !edit.fields.includes(name)
+    );
+    if (otherFields.length > 0) {
+      this.cancelCellEdit();
+      Notification.show(
+        t("table.finishInForm", { fields: otherFields.map(getFieldLabel) })
+      );
+      this.eventEmitter.emit("editItemInForm", {
+        id: record.id,
+        values,
+        fields: otherFields,
+      });
+      return;
+    }
+
+    if (Object.keys(errors).length > 0) {
+      edit.errors = errors;
+      this.renderRows();
+      this.focusCellEditor(
+        edit.fields.find((name) => errors[name]) ?? edit.field
+      );
+      return;
+    }
+
+    this.cellEdit = null;
+    const updated = buildRecordValues((name) => values[name] ?? "");
+    if (diffRevisions(getRecordValues(record), updated).length > 0) {
+      this.eventEmitter.emit("updateFormData", { ...record, ...updated });
+    } else {
+      this.renderRows();
+    }
+  }
+
+  /**
+   * Stops editing a cell without saving.
+   */
+
+  private cancelCellEdit(): void {
+    this.cellEdit = null;
+    this.renderRows();
+  }
+
+  /**
+   * Moves the focus to the editor of a field.
+   * @param {keyof RecordValues} name - The field.
+   */
+
+  private focusCellEditor(name: keyof RecordValues): void {
+    this.element
+      .querySelector<HTMLElement>(`.cell-editor[data-edit-field="${name}"]`)
+      ?.focus();
+  }
+
+  /**
+   * Tells whether the keyboard focus is on a cell of the table or a control inside one.
+   * @returns {boolean} Whether the table has the focus.
+   */
+
+  private isGridFocused(): boolean {
+    return !!this.element.querySelector("table")?.contains(document.activeElement);
+  }
+
+  /**
+   * Describes the focused control outside the table, such as the search box
+   * or a column chooser entry, so the same control can get the focus back
+   * once the table has been rendered again.
+   * @returns {string | null} A selector for the control, or `null` if the focus is elsewhere.
+   */
+
+  private getFocusSelector(): string | null {
+    const focused = document.activeElement;
+    if (
+      !(focused instanceof HTMLElement) ||
+      !this.element.contains(focused) ||
+      this.isGridFocused()
+    ) {
+      return null;
+    }
+    if (focused.id) {
+      return `#${focused.id}`;
+    }
+    const attributes = Array.from(focused.attributes)
+      .filter((attribute) => attribute.name.startsWith("data-"))
+      .map((attribute) => `[${attribute.name}="${CSS.escape(attribute.value)}"]`)
+      .join("");
+    return attributes ? `${focused.tagName.toLowerCase()}${attributes}` : null;
+  }
+
+  /**
+   * Makes the active cell the only tab stop of the table. The controls
+   * inside cells are reached from their cell, except the editors of a cell
+   * being edited in place.
+   */
+
+  private updateGridTabindex(): void {
+    const table = this.element.querySelector("table");
+    if (!table || table.rows.length === 0) {
+      return;
+    }
+    const row = Math.min(this.activeCell.row, table.rows.length - 1);
+    const column = Math.min(this.activeCell.column, table.rows[row].cells.length - 1);
+    this.activeCell = { row, column };
+    Array.from(table.rows).forEach((tableRow, rowIndex) =>
+      Array.from(tableRow.cells).forEach((cell, columnIndex) => {
+        cell.tabIndex = rowIndex === row && columnIndex === column ? 0 : -1;
+        cell
+          .querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)
+          .forEach((control) => {
+            if (!control.classList.contains("cell-editor")) {
+              control.tabIndex = -1;
+            }
+          });
+      })
+    );
+  }
+
+  /**
+   * Moves the focus to a cell, or to the nearest one if it is outside the table.
+   * @param {number} row - The row index, counting the rows of the table head.
+   * @param {number} column - The column index.
+   */
+
+  private focusCell(row: number, column: number): void {
+    const table = this.element.querySelector("table");
+    if (!table || table.rows.length === 0) {
+      return;
+    }
+    // Clamped to the table by updateGridTabindex.
+    this.activeCell = { row: Math.max(row, 0), column: Math.max(column, 0) };
+    this.updateGridTabindex();
+    table.rows[this.activeCell.row].cells[this.activeCell.column].focus();
+  }
+
+  /**
+   * Handles the keyboard in the table. The arrow keys, Home, End, Ctrl+Home
+   * and Ctrl+End move between cells, and Page Up and Page Down change page.
+   * Enter sorts by a header, moves into the controls of a cell or opens the
+   * details of a record, Space selects a record, F2 edits a cell in place
+   * and Shift with the left or right arrow resizes a column. In a cell's
+   * controls, Escape goes back to the cell and the left and right arrows
+   * move between its buttons.
+   * @param {KeyboardEvent} e - The keydown event.
+   */
+
+  private handleGridKeydown(e: KeyboardEvent): void {
+    const target = e.target as HTMLElement;
+    const table = this.element.querySelector("table");
+    const cell = target.closest<HTMLTableCellElement>("td, th");
+    if (!table || !cell || !table.contains(cell)) {
+      return;
+    }
+
+    if (target !== cell) {
+      if (e.key === "Escape" && !target.classList.contains("cell-editor")) {
+        e.preventDefault();
+        cell.focus();
+      } else if (
+        target.tagName === "BUTTON" &&
+        (e.key === "ArrowLeft" || e.key === "ArrowRight")
+      ) {
+        const buttons = Array.from(cell.querySelectorAll<HTMLElement>("button"));
+        const next = buttons[buttons.indexOf(target) + (e.key === "ArrowLeft" ? -1 : 1)];
+        if (next) {
+          e.preventDefault();
+          next.focus();
+        }
+      }
+      return;
+    }
+
+    const row = (cell.parentElement as HTMLTableRowElement).rowIndex;
+    const column = cell.cellIndex;
+    const sortKey = cell.getAttribute("data-sort") as keyof FormData | null;
+    const recordRow = cell.closest<HTMLElement>(".record-row");
+    const id = recordRow?.getAttribute("data-id");
+    const field = cell.getAttribute("data-column") as keyof RecordValues | null;
+    const control = cell.querySelector<HTMLElement>(FOCUSABLE_SELECTOR);
+
+    if (e.shiftKey && sortKey && (e.key === "ArrowLeft" || e.key === "ArrowRight")) {
+      this.resizeColumn(
+        cell,
+        sortKey,
+        e.key === "ArrowLeft" ? -COLUMN_RESIZE_STEP : COLUMN_RESIZE_STEP
+      );
+    } else if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+      this.focusCell(row + (e.key === "ArrowUp" ? -1 : 1), column);
+    } else if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+      this.focusCell(row, column + (e.key === "ArrowLeft" ? -1 : 1));
+    } else if (e.key === "Home") {
+      this.focusCell(e.ctrlKey ? 0 : row, 0);
+    } else if (e.key === "End") {
+      const lastRow = e.ctrlKey ? table.rows.length - 1 : row;
+      this.focusCell(lastRow, table.rows[lastRow].cells.length - 1);
+    } else if (e.key === "PageUp" || e.key === "PageDown") {
+      this.currentPage += e.key === "PageDown" ? 1 : -1;
+      this.activeCell = { row: Math.max(row, HEADER_ROW_COUNT), column };
+      this.renderRows();
+    } else if (e.key === "Enter" && sortKey) {
+      this.handleSort(sortKey);
+    } else if (e.key === "Enter" && control) {
+      control.focus();
+    } else if (e.key === "Enter" && id) {
+      this.eventEmitter.emit("showRecordDetails", id);
+    } else if (e.key === " " && recordRow) {
+      recordRow.querySelector<HTMLInputElement>(".row-select")?.click();
+    } else if (e.key === "F2" && id && field) {
+      this.startCellEdit(id, field);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  }
+
+  /**
+   * Looks up a column by key.
+   * @param {keyof FormData} key - The column key.
+   * @returns {TableColumn} The column.
+   */
+
+  private getColumn(key: keyof FormData): TableColumn {
+    return ALL_COLUMNS.find((column) => column.key === key) as TableColumn;
+  }
+
+  /**
+   * Returns the columns shown in the table, in display order, with their widths.
+   * @returns {(TableColumn & { width: number | null })[]} The visible columns.
+   */
+
+  private getVisibleColumns(): (TableColumn & { width: number | null })[] {
+    return this.layout.columns
+      .filter((column) => column.visible)
+      .map((column) => ({ ...this.getColumn(column.key), width: column.width }));
+  }
+
+  /**
+   * Shows or hides the column chooser.
+   * @param {boolean} open - Whether to show it.
+   */
+
+  private toggleColumnChooser(open: boolean): void {
+    this.isColumnChooserOpen = open;
+    (this.element.querySelector("#columnChooser") as HTMLElement).hidden = !open;
+    this.element
+      .querySelector("#columnsButton")
+      ?.setAttribute("aria-expanded", String(open));
+  }
+
+  /**
+   * Saves the table layout with the user preferences and re-renders the table.
+   * @param {TableLayout} layout - The new layout.
+   */
+
+  private saveLayout(layout: TableLayout): void {
+    this.stateManager.setTableLayout(layout);
+    this.render();
+  }
+
+  /**
+   * Shows or hides a column. The filter of a hidden column is cleared so
+   * that it cannot narrow the rows without being visible.
+   * @param {keyof FormData} key - The column key.
+   * @param {boolean} visible - Whether to show the column.
+   */
+
+  private setColumnVisible(key: keyof FormData, visible: boolean): void {
+    if (!visible) {
+      delete this.filters[key];
+    }
+    this.saveLayout({
+      ...this.layout,
+      columns: this.layout.columns.map((column) =>
+        column.key === key ? { ...column, visible } : column
+      ),
+    });
+  }
+
+  /**
+   * Moves a column to the position of another column.
+   * @param {keyof FormData} key - The column being moved.
+   * @param {keyof FormData} targetKey - The column whose position it takes.
+   */
+
+  private moveColumn(key: keyof FormData, targetKey: keyof FormData): void {
+    const columns = [...this.layout.columns];
+    const from = columns.findIndex((column) => column.key === key);
+    const to = columns.findIndex((column) => column.key === targetKey);
+    if (from === -1 || to === -1 || from === to) {
+      return;
+    }
+    const [moved] = columns.splice(from, 1);
+    columns.splice(to, 0, moved);
+    this.saveLayout({ ...this.layout, columns });
+  }
+
+  /**
+   * Resizes a column while its header border is dragged, and saves the
+   * width once the mouse button is released.
+   * @param {MouseEvent} e - The mousedown event on the resize handle.
+   * @param {keyof FormData} key - The column key.
+   */
+
+  private startResize(e: MouseEvent, key: keyof FormData): void {
+    const header = (e.target as HTMLElement).closest("th") as HTMLElement;
+    const startX = e.clientX;
+    const startWidth = header.offsetWidth;
+    // Keeps the header from starting a column drag.
+    e.preventDefault();
+
+    const onMove = (moveEvent: MouseEvent) => {
+      const width = Math.max(MIN_COLUMN_WIDTH, startWidth + moveEvent.clientX - startX);
+      header.style.width = `${width}px`;
+    };
+    const onUp = () => {
+      document.removeEventListener("mousemove", onMove);
+      this.saveColumnWidth(key, header.offsetWidth);
+    };
+    document.addEventListener("mousemove", onMove);
+    document.addEventListener("mouseup", onUp, { once: true });
+  }
 
   /**
-   * Constructs a TableComponent instance.
-   * @param {string} elementId - The ID of the DOM element where the table is rendered.
-   * @param {EventEmitter} eventEmitter - An event emitter for handling custom events.
+   * Resizes a column from the keyboard and saves its width.
+   * @param {HTMLElement} header - The header cell of the column.
+   * @param {keyof FormData} key - The column key.
+   * @param {number} delta - How many pixels to add to the width.
    */
 
-  constructor(elementId: string, eventEmitter: EventEmitter) {
-    super(elementId);
-    this.eventEmitter = eventEmitter;
+  private resizeColumn(header: HTMLElement, key: keyof FormData, delta: number): void {
+    header.style.width = `${Math.max(MIN_COLUMN_WIDTH, header.offsetWidth + delta)}px`;
+    this.saveColumnWidth(key, header.offsetWidth);
   }
+
   /**
-   * Renders the table with the provided data.
-   * @param {FormData[]} [data] - An optional array of data objects to populate the table.
+   * Saves the width of a column with the user preferences, without
+   * re-rendering the table.
+   * @param {keyof FormData} key - The column key.
+   * @param {number} width - The width in pixels.
    */
 
-  render(data?: FormData[]): void {
-    const tableRows =
-      data && data.length > 0
-        ? data
-          .map(
-            (item) => `
-      <tr>
-        <td>${item.name}</td>
-        <td>${item.phone}</td>
-        <td>${item.email}</td>
-        
-        <td>${item.country}</td>
-        
-        <td>
-          <div class="action-buttons">
-            <button class="edit" data-id="${item.id}" title="Edit">✏️</button>
-            <button class="delete" data-id="${item.id}" title="Delete">🗑️</button>
-            <button class="restore" data-id="${item.id}" title="Restore">↩️</button>
-          </div>
-        </td>
-      </tr>
-    `
-          )
-          .join("")
-        : `<tr><td colspan="10">No data available</td></tr>`;
+  private saveColumnWidth(key: keyof FormData, width: number): void {
+    this.stateManager.setTableLayout({
+      ...this.layout,
+      columns: this.layout.columns.map((column) =>
+        column.key === key ? { ...column, width } : column
+      ),
+    });
+    this.layout = restoreLayout(this.stateManager.getTableLayout());
+  }
 
-    this.element.innerHTML = `
-      <style>
-        .table-container {
-          margin-top: 20px;
-          overflow-x: auto;
-          background-color: #f8f9fa;
-          border-radius: 8px;
-          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-        }
-        table {
-          width: 100%;
-          border-collapse: separate;
-          border-spacing: 0;
-          background-color: #fff;
-          overflow: hidden;
-        }
-        th, td {
-          padding: 15px;
-          text-align: left;
-          border-bottom: 1px solid #e0e0e0;
-        }
-        th {
-          background-color: #007bff;
-          color: white;
-          font-weight: bold;
-          text-transform: uppercase;
-          letter-spacing: 0.5px;
-          font-size: 14px;
-        }
-        tr:nth-child(even) {
-          background-color: #f8f9fa;
-        }
-        tr:hover {
-          background-color: #e9ecef;
-          transition: background-color 0.3s ease;
-        }
-        .action-buttons {
-          display: flex;
-          justify-content: space-around;
-          gap: 5px;
-        }
-        .edit, .delete, .restore {
-          padding: 8px 12px;
-          border: none;
-          border-radius: 4px;
-          cursor: pointer;
-          font-size: 16px;
-          transition: all 0.3s ease;
-        }
-        .edit {
-          background-color: #28a745;
-          color: white;
-        }
-        .edit:hover {
-          background-color: #218838;
-        }
-        .delete {
-          background-color: #dc3545;
-          color: white;
-        }
-        .delete:hover {
-          background-color: #c82333;
-        }
-        .restore {
-          background-color: #ffc107;
-          color: #212529;
-        }
-        .restore:hover {
-          background-color: #e0a800;
-        }
-        #restoreButton {
-          margin-top: 20px;
-          padding: 10px 20px;
-          background-color: #17a2b8;
-          color: white;
-          border: none;
-          border-radius: 4px;
-          cursor: pointer;
-          font-size: 16px;
-          transition: background-color 0.3s ease;
-        }
-        #restoreButton:hover {
-          background-color: #138496;
-        }
-        @media (max-width: 768px) {
-          th, td {
-            padding: 10px;
-          }
-          .action-buttons {
-            flex-direction: column;
-            gap: 5px;
-          }
-          .edit, .delete, .restore {
-            width: 100%;
-          }
-        }
-      </style>
-      <div class="table-container">
-        <table>
-          <thead>
-            <tr>
-              <th>Name</th>
-              <th>Phone</th>
-              <th>Email</th>
-              
-              <th>Country</th>
-              
-              <th>Actions</th>
-            </tr>
-          </thead>
-          <tbody>
-            ${tableRows}
-          </tbody>
-        </table>
-      </div>
-      
-    `;
+  /**
+   * Adds the listeners that reorder columns by dragging a header or an
+   * entry of the column chooser onto another one.
+   */
 
-    this.addEventListeners();
+  private addColumnDragListeners(): void {
+    const getDropTarget = (e: DragEvent) =>
+      (e.target as HTMLElement).closest<HTMLElement>("[data-drag-column]");
+    const clearDropTargets = () =>
+      this.element
+        .querySelectorAll(".drop-target")
+        .forEach((element) => element.classList.remove("drop-target"));
+
+    this.element.addEventListener("dragstart", (e) => {
+      const source = getDropTarget(e);
+      if (source && e.dataTransfer) {
+        this.draggedColumn = source.getAttribute("data-drag-column") as keyof FormData;
+        e.dataTransfer.effectAllowed = "move";
+        e.dataTransfer.setData("text/plain", this.draggedColumn);
+      }
+    });
+
+    this.element.addEventListener("dragover", (e) => {
+      const target = getDropTarget(e);
+      if (this.draggedColumn && target) {
+        e.preventDefault();
+        clearDropTargets();
+        target.classList.add("drop-target");
+      }
+    });
+
+    this.element.addEventListener("drop", (e) => {
+      const target = getDropTarget(e);
+      if (this.draggedColumn && target) {
+        e.preventDefault();
+        this.moveColumn(
+          this.draggedColumn,
+          target.getAttribute("data-drag-column") as keyof FormData
+        );
+      }
+    });
+
+    this.element.addEventListener("dragend", () => {
+      this.draggedColumn = null;
+      clearDropTargets();
+    });
+  }
+
+  /**
+   * Renders the search matches found in fields the table does not show,
+   * so it is clear why a row matched.
+   * @param {FormData} item - The row data.
+   * @returns {string} The HTML for the match hints, or an empty string.
+   */
+
+  private renderMatchHints(item: FormData): string {
+    const query = this.searchQuery.trim().toLowerCase();
+    if (!query) {
+      return "";
+    }
+    const columns = this.getVisibleColumns();
+    return ALL_COLUMNS.filter(
+      (field) =>
+        !columns.some((column) => column.key === field.key) &&
+        this.formatCell(item, field.key).toLowerCase().includes(query)
+    )
+      .map(
+        (field) =>
+          `<div class="match-hint">${field.label()}: ${highlightMatches(
+            this.formatCell(item, field.key),
+            query
+          )}</div>`
+      )
+      .join("");
+  }
+
+  /**
+   * Applies the global search, the column filters and the current sort order to the data.
+   * @returns {FormData[]} The filtered and sorted rows.
+   */
+
+  private getFilteredData(): FormData[] {
+    const query = this.searchQuery.trim().toLowerCase();
+    const activeFilters = Object.entries(this.filters)
+      .map(([key, value]) => [key, (value || "").trim().toLowerCase()])
+      .filter(([, value]) => value !== "") as [keyof FormData, string][];
+
+    const filteredData = this.data.filter(
+      (item) =>
+        (!query ||
+          ALL_COLUMNS.some((field) =>
+            this.formatCell(item, field.key).toLowerCase().includes(query)
+          )) &&
+        activeFilters.every(([key, value]) =>
+          this.formatCell(item, key).toLowerCase().includes(value)
+        )
+    );
+
+    const sortKey = this.sortKey;
+    if (sortKey) {
+      const direction = this.sortDirection === "asc" ? 1 : -1;
+      filteredData.sort(
+        (a, b) => this.compareValues(a[sortKey], b[sortKey]) * direction
+      );
+    }
+    return filteredData;
+  }
+
+  /**
+   * Compares two cell values, numerically when both are numbers.
+   * @param {unknown} a - The first value.
+   * @param {unknown} b - The second value.
+   * @returns {number} A negative, zero or positive number.
+   */
+
+  private compareValues(a: unknown, b: unknown): number {
+    if (typeof a === "number" && typeof b === "number") {
+      return a - b;
+    }
+    return String(a ?? "").localeCompare(String(b ?? ""), undefined, {
+      numeric: true,
+      sensitivity: "base",
+    });
+  }
+
+  /**
+   * Returns the display text of a cell. Phone numbers are shown in the
+   * style of the record's country, and dates and numbers in the style of
+   * the current language.
+   * @param {FormData} item - The row data.
+   * @param {keyof FormData} key - The column key.
+   * @returns {string} The text shown in the cell.
+   */
+
+  private formatCell(item: FormData, key: keyof FormData): string {
+    const value = item[key];
+    if (key === "phone" && value) {
+      return formatPhone(String(value), item.country);
+    }
+    if (key === "timeStamp" && value) {
+      return formatDateTime(String(value));
+    }
+    const type = getFieldSchema(key)?.type;
+    if (type === "date" && value) {
+      return formatDate(String(value));
+    }
+    if (type === "number" && typeof value === "number" && !Number.isNaN(value)) {
+      return formatNumber(value);
+    }
+    return value === undefined || value === null ? "" : String(value);
   }
+
+  /**
+   * Toggles the sort direction of a column, or sorts ascending by a new column.
+   * @param {keyof FormData} key - The column to sort by.
+   */
+
+  private handleSort(key: keyof FormData): void {
+    if (this.sortKey === key) {
+      this.sortDirection = this.sortDirection === "asc" ? "desc" : "asc";
+    } else {
+      this.sortKey = key;
+      this.sortDirection = "asc";
+    }
+    this.renderRows();
+  }
+
   /**
    * Adds event listeners to the table and its elements for user interaction.
+   * Listeners are delegated from the host element so they survive re-renders.
    */
 
   private addEventListeners(): void {
     this.element.addEventListener("click", (e) => {
       const target = e.target as HTMLElement;
-      if (target.classList.contains("edit")) {
-        const id = target.getAttribute("data-id");
-        this.eventEmitter.emit("editItem", id);
-      } else if (target.classList.contains("delete")) {
-        const id = target.getAttribute("data-id");
-        if (!document.querySelector(".delete-popup")) {
-          this.openDeleteConfirmationPopup(id);
-        }
-      } else if (target.classList.contains("restore")) {
-        const id = target.getAttribute("data-id");
-        this.openRestorePopup(id);
+      const sortHeader = target.closest("[data-sort]");
+      if (sortHeader && !target.hasAttribute("data-resize")) {
+        this.handleSort(sortHeader.getAttribute("data-sort") as keyof FormData);
+      } else if (target.id === "importButton") {
+        this.eventEmitter.emit("showImportModal");
+      } else if (target.id === "exportButton") {
+        this.eventEmitter.emit("showExportModal");
+      } else if (target.id === "columnsButton") {
+        this.toggleColumnChooser(!this.isColumnChooserOpen);
+      } else if (target.id === "resetLayoutButton") {
+        this.saveLayout(getDefaultLayout());
+      } else if (target.id === "duplicatesButton") {
+        this.eventEmitter.emit("showDuplicates");
+      } else if (target.id === "trashButton") {
+        this.eventEmitter.emit("showTrash");
+      } else if (target.hasAttribute("data-bulk")) {
+        this.handleBulkAction(target.getAttribute("data-bulk"));
+      } else if (target.hasAttribute("data-page")) {
+        this.currentPage += target.getAttribute("data-page") === "next" ? 1 : -1;
+        this.renderRows();
+      } else if (target.hasAttribute("data-move-column")) {
+        const key = target.getAttribute("data-move-column") as keyof FormData;
+        const index = this.layout.columns.findIndex((column) => column.key === key);
+        const neighbour =
+          this.layout.columns[index + (target.getAttribute("data-move") === "up" ? -1 : 1)];
+        if (neighbour) {
+          this.moveColumn(key, neighbour.key);
+        }
+      } else if (target.closest(".edit")) {
+        const id = target.closest(".edit")?.getAttribute("data-id");
+        if (id) {
+          this.eventEmitter.emit("editItem", id);
+        }
+      } else if (target.closest(".history")) {
+        const id = target.closest(".history")?.getAttribute("data-id");
+        if (id) {
+          this.eventEmitter.emit("showHistory", id);
+        }
+      } else if (target.closest(".delete")) {
+        const id = target.closest(".delete")?.getAttribute("data-id");
+        if (id && !document.querySelector(".delete-popup")) {
+          this.openDeleteConfirmationPopup([id]);
+        }
+      } else if (!target.closest("button, input, select, a")) {
+        // Clicking anywhere else on a row opens its details, unless the
+        // click turns out to be the start of a double-click.
+        const id = target.closest(".record-row")?.getAttribute("data-id");
+        clearTimeout(this.rowClickTimer);
+        if (id && e.detail <= 1 && this.cellEdit?.id !== id) {
+          this.rowClickTimer = setTimeout(
+            () => this.eventEmitter.emit("showRecordDetails", id),
+            ROW_CLICK_DELAY_MS
+          );
+        }
+      }
+    });
+
+    this.element.addEventListener("dblclick", (e) => {
+      const target = e.target as HTMLElement;
+      const cell = target.closest<HTMLElement>("td[data-column]");
+      const id = target.closest(".record-row")?.getAttribute("data-id");
+      if (cell && id && !target.closest(".cell-editor")) {
+        clearTimeout(this.rowClickTimer);
+        this.startCellEdit(
+          id,
+          cell.getAttribute("data-column") as keyof RecordValues
+        );
+      }
+    });
+
+    this.element.addEventListener("keydown", (e) => {
+      const target = e.target as HTMLElement;
+      if (e.key === "Escape" && target.closest("#columnChooser")) {
+        this.toggleColumnChooser(false);
+        (this.element.querySelector("#columnsButton") as HTMLElement).focus();
+        return;
+      }
+      if (!target.classList.contains("cell-editor")) {
+        this.handleGridKeydown(e);
+        return;
+      }
+      if (e.key === "Enter") {
+        e.preventDefault();
+        this.saveCellEdit();
+      } else if (e.key === "Escape") {
+        e.preventDefault();
+        this.cancelCellEdit();
+      }
+    });
+
+    this.element.addEventListener("mousedown", (e) => {
+      const target = e.target as HTMLElement;
+      if (target.hasAttribute("data-resize")) {
+        this.startResize(e, target.getAttribute("data-resize") as keyof FormData);
+      }
+    });
+
+    this.element.addEventListener("focusin", (e) => {
+      const cell = (e.target as HTMLElement).closest<HTMLTableCellElement>("td, th");
+      if (cell && this.element.querySelector("table")?.contains(cell)) {
+        this.activeCell = {
+          row: (cell.parentElement as HTMLTableRowElement).rowIndex,
+          column: cell.cellIndex,
+        };
+        this.updateGridTabindex();
+      }
+    });
+
+    this.addColumnDragListeners();
+
+    this.element.addEventListener("input", (e) => {
+      const target = e.target as HTMLElement;
+      if (target.classList.contains("cell-editor") && target.tagName === "INPUT") {
+        this.updateCellValue(
+          target.getAttribute("data-edit-field") as keyof RecordValues,
+          (target as HTMLInputElement).value
+        );
+      } else if (target.id === "globalSearch") {
+        this.applySearch((target as HTMLInputElement).value);
+      } else if (target.classList.contains("column-filter")) {
+        const key = target.getAttribute("data-filter") as keyof FormData;
+        this.filters[key] = (target as HTMLInputElement).value;
+        this.currentPage = 1;
+        this.renderRows();
+      }
+    });
+
+    this.element.addEventListener("change", (e) => {
+      const target = e.target as HTMLElement;
+      if (target.classList.contains("cell-editor") && target.tagName === "SELECT") {
+        this.changeCellSelect(
+          target.getAttribute("data-edit-field") as keyof RecordValues,
+          (target as HTMLSelectElement).value
+        );
+      } else if (target.id === "pageSizeSelect") {
+        this.pageSize = Number.parseInt((target as HTMLSelectElement).value, 10);
+        this.currentPage = 1;
+        this.renderRows();
+      } else if (target.id === "selectAllRows") {
+        // Selects every row matching the search and filters, on all pages.
+        this.selectedIds = (target as HTMLInputElement).checked
+          ? new Set(this.getFilteredData().map((item) => item.id))
+          : new Set();
+        this.renderRows();
+      } else if (target.hasAttribute("data-column-visible")) {
+        this.setColumnVisible(
+          target.getAttribute("data-column-visible") as keyof FormData,
+          (target as HTMLInputElement).checked
+        );
+      } else if (target.id === "compactDensity") {
+        this.saveLayout({
+          ...this.layout,
+          density: (target as HTMLInputElement).checked ? "compact" : "comfortable",
+        });
+      } else if (target.classList.contains("row-select")) {
+        const id = target.getAttribute("data-id") as string;
+        if ((target as HTMLInputElement).checked) {
+          this.selectedIds.add(id);
+        } else {
+          this.selectedIds.delete(id);
+        }
+        target.closest(".record-row")?.setAttribute(
+          "aria-selected",
+          String((target as HTMLInputElement).checked)
+        );
+        this.updateSelection();
       }
     });
   }
 
   /**
-   * Opens a confirmation popup for deleting an item.
-   * @param {string | null} id - The ID of the item to be deleted.
+   * Runs an action of the bulk action bar on the selected rows.
+   * @param {string | null} action - The action: `update`, `export`, `delete` or `clear`.
+   */
+
+  private handleBulkAction(action: string | null): void {
+    const ids = this.getSelectedData().map((item) => item.id);
+    if (action === "clear") {
+      this.selectedIds.clear();
+      this.renderRows();
+    } else if (ids.length === 0) {
+      return;
+    } else if (action === "update") {
+      this.eventEmitter.emit("showBulkUpdate", ids);
+    } else if (action === "export") {
+      this.eventEmitter.emit("showExportModal");
+    } else if (action === "delete" && !document.querySelector(".delete-popup")) {
+      this.openDeleteConfirmationPopup(ids);
+    }
+  }
+
+  /**
+   * Opens a confirmation popup for deleting one or more items.
+   * A single typed confirmation covers every item.
+   * @param {string[]} ids - The IDs of the items to be deleted.
    */
 
-  private openDeleteConfirmationPopup(id: string | null): void {
-    if (!id) return;
+  private openDeleteConfirmationPopup(ids: string[]): void {
+    if (ids.length === 0) return;
 
     const popup = document.createElement("div");
     popup.className = "delete-popup";
     popup.innerHTML = `
-      <div class="popup-content">
-        <h3>Confirm Deletion</h3>
-        <p>Are you sure you want to delete this item? This action cannot be undone.</p>
-        <input type="text" id="deleteConfirmationInput" placeholder="Type 'delete' to confirm" />
+      <div class="popup-content" role="dialog" aria-modal="true" aria-labelledby="deletePopupTitle" aria-describedby="deletePopupMessage">
+        <h3 id="deletePopupTitle">${t("delete.title")}</h3>
+        <p id="deletePopupMessage">${ids.length === 1 ? t("delete.message") : t("delete.bulkMessage", { count: ids.length })}</p>
+        <input type="text" id="deleteConfirmationInput" placeholder="${t("delete.placeholder", { word: t("delete.word") })}" aria-label="${t("delete.placeholder", { word: t("delete.word") })}" />
         <div class="popup-actions">
-          <button id="confirmDeleteButton">Delete</button>
-          <button id="cancelDeleteButton">Cancel</button>
+          <button id="confirmDeleteButton">${t("delete.confirm")}</button>
+          <button id="cancelDeleteButton">${t("common.cancel")}</button>
         </div>
       </div>
     `;
 
+    const focusTrap = new FocusTrap(popup, () => closePopup());
+    const closePopup = () => {
+      popup.remove();
+      focusTrap.deactivate();
+    };
+    focusTrap.activate();
     document.body.appendChild(popup);
 
     const confirmButton = popup.querySelector(
@@ -228,19 +1800,29 @@ export class TableComponent extends BaseComponent {
     ) as HTMLInputElement;
 
     confirmButton.addEventListener("click", () => {
-      if (inputField.value.trim().toLowerCase() === "delete") {
-        this.eventEmitter.emit("deleteData", id);
-        document.body.removeChild(popup);
+      if (inputField.value.trim().toLowerCase() === t("delete.word")) {
+        // Closed first so the focus is back in the table when it re-renders.
+        closePopup();
+        if (ids.length === 1) {
+          this.eventEmitter.emit("deleteData", ids[0]);
+        } else {
+          this.eventEmitter.emit("deleteRecords", ids);
+        }
       } else {
-        alert("Please type 'delete' to confirm.");
+        alert(t("delete.prompt", { word: t("delete.word") }));
       }
     });
 
-    cancelButton.addEventListener("click", () => {
-      document.body.removeChild(popup);
+    cancelButton.addEventListener("click", closePopup);
+    inputField.addEventListener("keydown", (e) => {
+      if (e.key === "Enter") {
+        e.preventDefault();
+        confirmButton.click();
+      }
     });
 
     this.addPopupStyles();
+    focusTrap.afterRender();
   }
 
   /**
@@ -327,179 +1909,4 @@ export class TableComponent extends BaseComponent {
     `;
     document.head.appendChild(style);
   }
-
-  /**
-   * Opens a restore popup displaying deleted items.
-   * @param {any} id - The ID of the item to be restored.
-   */
-
-  private openRestorePopup(id: any): void {
-    let restoreData: any = localStorage.getItem("appStateDeletedData")
-      ? localStorage.getItem("appStateDeletedData")
-      : "[]";
-    restoreData = JSON.parse(restoreData);
-    restoreData = restoreData.filter((filterdata: any) => filterdata.id == id);
-    console.log("restoreData", restoreData);
-    const popup = document.createElement("div");
-    popup.className = "restore-popup";
-    popup.innerHTML = `
-    <div class="popup-content">
-      <h3>Restore Data</h3>
-      <ul>
-        ${restoreData
-        .map(
-          (item: any) => `
-            <li>
-              <strong>Name:</strong> ${item.name}<br>
-              <strong>Phone:</strong> ${item.phone}<br>
-              <strong>Email:</strong> ${item.email}<br>
-              <strong>Timestamp:</strong> ${item.timeStamp}
-              <button class="restore-action-button" data-id="${item.id}">Restore</button>
-            </li>
-          `
-        )
-        .join("")}
-      </ul>
-      <button id="closeRestorePopup">Close</button>
-    </div>
-  `;
-
-    document.body.appendChild(popup);
-
-    const closeButton = popup.querySelector(
-      "#closeRestorePopup"
-    ) as HTMLElement;
-    closeButton.addEventListener("click", () => {
-      document.body.removeChild(popup);
-    });
-
-    const restoreButtons = popup.querySelectorAll(".restore-action-button");
-    restoreButtons.forEach((button) => {
-      button.addEventListener("click", () => {
-        const rowData = restoreData.find(
-          (item: any) => item.id === button.getAttribute("data-id")
-        );
-        document.body.removeChild(popup);
-        this.handleRestore(rowData);
-      });
-    });
-
-    this.addRestorePopupStyles();
-  }
-
-  /**
-   * Handles the restoration of a deleted item.
-   * @param {any} rowData - The data of the item to restore.
-   */
-
-  private handleRestore(rowData: any) {
-    this.restoreDeleteItem(rowData.id);
-    this.eventEmitter.emit("formSubmit", rowData);
-  }
-  /**
-   * Adds custom styles for the restore popup.
-   */
-
-  private addRestorePopupStyles() {
-    const style = document.createElement("style");
-    style.textContent = `
-    .restore-popup {
-      position: fixed;
-      top: 0;
-      left: 0;
-      width: 100%;
-      height: 100%;
-      background-color: rgba(0, 0, 0, 0.7);
-      display: flex;
-      justify-content: center;
-      align-items: center;
-      z-index: 1000;
-    }
-
-    .popup-content {
-      background: #fff;
-      padding: 30px;
-      border-radius: 8px;
-      box-shadow: 0 4px 15px rgba(0, 0, 0, 0.2);
-      text-align: center;
-      width: 500px;
-      max-width: 90%;
-      font-family: 'Arial', sans-serif;
-    }
-
-    .popup-content h3 {
-      margin-bottom: 20px;
-      font-size: 24px;
-      font-weight: 600;
-      color: #007bff;
-    }
-
-    .popup-content ul {
-      list-style: none;
-      padding: 0;
-      margin: 0 0 20px 0;
-      text-align: left;
-      max-height: 300px;
-      overflow-y: auto;
-    }
-
-    .popup-content ul li {
-      margin-bottom: 15px;
-      font-size: 16px;
-      line-height: 1.6;
-      color: #555;
-      padding: 15px;
-      background-color: #f8f9fa;
-      border-radius: 4px;
-      box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
-    }
-
-    .popup-content ul li strong {
-      color: #333;
-    }
-
-    .restore-action-button {
-      padding: 8px 16px;
-      font-size: 14px;
-      border: none;
-      border-radius: 4px;
-      cursor: pointer;
-      background-color: #28a745;
-      color: white;
-      margin-top: 10px;
-      transition: background-color 0.3s ease;
-    }
-
-    .restore-action-button:hover {
-      background-color: #218838;
-    }
-
-    .popup-content button#closeRestorePopup {
-      padding: 10px 20px;
-      font-size: 16px;
-      border: none;
-      border-radius: 5px;
-      cursor: pointer;
-      background-color: #6c757d;
-      color: white;
-      font-weight: bold;
-      transition: background-color 0.3s ease;
-    }
-
-    .popup-content button#closeRestorePopup:hover {
-      background-color: #5a6268;
-    }
-  `;
-    document.head.appendChild(style);
-  }
-
-
-  /**
-   * Restores a deleted item by emitting an event.
-   * @param {string} id - The ID of the item to restore.
-   */
-
-  private restoreDeleteItem(id: string): void {
-    this.eventEmitter.emit("restoreDeleteData", id);
-  }
 }
@@ -0,0 +1,320 @@
+import { BaseComponent } from "./BaseComponent.ts";
+import type { EventEmitter } from "./EventListener.ts";
+import { FocusTrap } from "./FocusTrap.ts";
+import type { AppEvents, DeletedRecord } from "./Interfaces.ts";
+import { getFieldLabel } from "./formSchema.ts";
+import { formatDateTime, t } from "./i18n.ts";
+import { escapeHtml } from "./utils.ts";
+
+/**
+ * Retention periods offered in the trash settings, in days, with the
+ * message describing them. `null` keeps deleted records forever.
+ */
+const RETENTION_OPTIONS: { days: number | null; message: string }[] = [
+  { days: 7, message: "trash.retentionDays" },
+  { days: 30, message: "trash.retentionDays" },
+  { days: 90, message: "trash.retentionDays" },
+  { days: 365, message: "trash.retentionYear" },
+  { days: null, message: "trash.retentionForever" },
+];
+
+/**
+ * Milliseconds in a day.
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the key identifying a record in the trash.
+ * The same record can be deleted more than once, so the deletion time is part of the key.
+ * @param record - The deleted record.
+ * @returns The trash key.
+ */
+
+export function getTrashKey(record: DeletedRecord): string {
+  return `${record.id}|${record.deletedAt}`;
+}
+
+/**
+ * Lists every deleted record with its deletion time and lets the user
+ * restore or permanently delete selected records, empty the trash and
+ * choose how long deleted records are kept.
+ * @extends BaseComponent
+ */
+
+export class TrashComponent extends BaseComponent {
+  private eventEmitter: EventEmitter<AppEvents>;
+  private focusTrap: FocusTrap;
+  private records: DeletedRecord[] = [];
+  private retentionDays: number | null = null;
+  private selectedKeys = new Set<string>();
+  private isOpen = false;
+
+  /**
+   * Constructs the TrashComponent.
+   * @param {string} elementId - The ID of the DOM element hosting the trash dialog.
+   * @param {EventEmitter<AppEvents>} eventEmitter - The event emitter used to request trash actions.
+   */
+
+  constructor(elementId: string, eventEmitter: EventEmitter<AppEvents>) {
+    super(elementId);
+    this.focusTrap = new FocusTrap(this.element, () => this.close());
+    this.eventEmitter = eventEmitter;
+    this.addEventListeners();
+  }
+
+  /**
+   * Opens the trash dialog.
+   * @param {DeletedRecord[]} records - The records in the trash.
+   * @param {number | null} retentionDays - How long deleted records are kept, or `null` for forever.
+   */
+
+  open(records: DeletedRecord[], retentionDays: number | null): void {
+    this.focusTrap.activate();
+    this.isOpen = true;
+    this.selectedKeys.clear();
+    this.update(records, retentionDays);
+  }
+
+  /**
+   * Refreshes the trash dialog with new contents if it is open.
+   * Selected records that are no longer in the trash are deselected.
+   * @param {DeletedRecord[]} records - The records in the trash.
+   * @param {number | null} retentionDays - How long deleted records are kept, or `null` for forever.
+   */
+
+  update(records: DeletedRecord[], retentionDays: number | null): void {
+    if (!this.isOpen) {
+      return;
+    }
+    this.records = [...records].sort((a, b) =>
+      b.deletedAt.localeCompare(a.deletedAt)
+    );
+    this.retentionDays = retentionDays;
+    const keys = new Set(this.records.map(getTrashKey));
+    this.selectedKeys.forEach((key) => {
+      if (!keys.has(key)) {
+        this.selectedKeys.delete(key);
+      }
+    });
+    this.render();
+  }
+
+  /**
+   * Closes the trash dialog.
+   */
+
+  close(): void {
+    this.isOpen = false;
+    this.element.innerHTML = "";
+    this.focusTrap.deactivate();
+  }
+
+  /**
+   * Renders the trash dialog.
+   */
+
+  render(): void {
+    const allSelected =
+      this.records.length > 0 && this.selectedKeys.size === this.records.length;
+    const hasSelection = this.selectedKeys.size > 0;
+
+    const retentionOptions = RETENTION_OPTIONS.map(
+      (option) =>
+        `<option value="${option.days ?? ""}" ${option.days === this.retentionDays ? "selected" : ""}>${t(option.message, { count: option.days })}</option>`
+    ).join("");
+
+    const rows =
+      this.records.length > 0
+        ? this.records
+          .map((record) => {
+            const key = getTrashKey(record);
+            return `
+          <tr>
+            <td>
+              <input type="checkbox" class="trash-select" data-key="${escapeHtml(key)}" aria-label="${t("table.selectRecord", { name: escapeHtml(record.name) })}" ${this.selectedKeys.has(key) ? "checked" : ""} />
+            </td>
+            <td>${escapeHtml(record.name)}</td>
+            <td>${escapeHtml(record.email)}</td>
+            <td>${this.formatDate(record.deletedAt)}</td>
+            <td>${this.formatExpiry(record.deletedAt)}</td>
+          </tr>
+        `;
+          })
+          .join("")
+        : `<tr><td colspan="5">${t("trash.empty")}</td></tr>`;
+
+    this.element.innerHTML = `
+      <style>
+        .trash-modal {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          background-color: rgba(0, 0, 0, 0.5);
+          display: flex;
+          justify-content: center;
+          align-items: center;
+          z-index: 1000;
+        }
+        .trash-content {
+          background: #fff;
+          padding: 30px;
+          border-radius: 8px;
+          box-shadow: 0 4px 15px rgba(0, 0, 0, 0.2);
+          width: 800px;
+          max-width: 95%;
+          max-height: 90vh;
+          overflow-y: auto;
+        }
+        .trash-content h2 {
+          margin-bottom: 15px;
+          color: #0062cc;
+        }
+        .trash-settings {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          margin-bottom: 15px;
+        }
+        .trash-settings label {
+          margin: 0;
+        }
+        .trash-settings select {
+          width: auto;
+          padding: 6px;
+          font-size: 14px;
+        }
+        .trash-table {
+          width: 100%;
+          margin-bottom: 15px;
+          font-size: 14px;
+        }
+        .trash-table input[type="checkbox"] {
+          width: auto;
+        }
+        .trash-actions {
+          display: flex;
+          justify-content: flex-end;
+          flex-wrap: wrap;
+          gap: 10px;
+        }
+        .trash-actions button:disabled {
+          cursor: not-allowed;
+          opacity: 0.5;
+        }
+      </style>
+      <div class="trash-modal">
+        <div class="trash-content" role="dialog" aria-modal="true" aria-labelledby="trashTitle">
+          <h2 id="trashTitle">${t("trash.title", { count: this.records.length })}</h2>
+          <div class="trash-settings">
+            <label for="trashRetention">${t("trash.retention")}</label>
+            <select id="trashRetention">${retentionOptions}</select>
+          </div>
+          <table class="trash-table">
+            <thead>
+              <tr>
+                <th><input type="checkbox" id="trashSelectAll" aria-label="${t("table.selectAll")}" ${allSelected ? "checked" : ""} /></th>
+                <th>${getFieldLabel("name")}</th>
+                <th>${getFieldLabel("email")}</th>
+                <th>${t("trash.deletedAt")}</th>
+                <th>${t("trash.expiresAt")}</th>
+              </tr>
+            </thead>
+            <tbody>${rows}</tbody>
+          </table>
+          <div class="trash-actions">
+            <button type="button" data-action="restore" ${hasSelection ? "" : "disabled"}>
+              ${t("trash.restore", { count: this.selectedKeys.size })}
+            </button>
+            <button type="button" data-action="purge" ${hasSelection ? "" : "disabled"}>
+              ${t("trash.purge")}
+            </button>
+            <button type="button" data-action="empty" ${this.records.length > 0 ? "" : "disabled"}>
+              ${t("trash.emptyTrash")}
+            </button>
+            <button type="button" data-action="close">${t("common.close")}</button>
+          </div>
+        </div>
+      </div>
+    `;
+    this.focusTrap.afterRender();
+  }
+
+  /**
+   * Formats a date for display.
+   * @param {string} value - The ISO date string.
+   * @returns {string} The formatted date.
+   */
+
+  private formatDate(value: string): string {
+    return escapeHtml(formatDateTime(value));
+  }
+
+  /**
+   * Describes when a deleted record will be purged under the retention period.
+   * @param {string} deletedAt - The ISO deletion time.
+   * @returns {string} The expiry description.
+   */
+
+  private formatExpiry(deletedAt: string): string {
+    const deletedTime = new Date(deletedAt).getTime();
+    if (this.retentionDays === null || isNaN(deletedTime)) {
+      return t("trash.expiresNever");
+    }
+    const daysLeft = Math.ceil(
+      (deletedTime + this.retentionDays * DAY_MS - Date.now()) / DAY_MS
+    );
+    return daysLeft <= 1
+      ? t("trash.expiresWithinDay")
+      : t("trash.expiresInDays", { count: daysLeft });
+  }
+
+  /**
+   * Adds delegated event listeners for the dialog controls.
+   */
+
+  private addEventListeners(): void {
+    this.element.addEventListener("change", (e) => {
+      const target = e.target as HTMLInputElement | HTMLSelectElement;
+      if (target.id === "trashSelectAll") {
+        this.selectedKeys = (target as HTMLInputElement).checked
+          ? new Set(this.records.map(getTrashKey))
+          : new Set();
+        this.render();
+      } else if (target.classList.contains("trash-select")) {
+        const key = target.getAttribute("data-key") as string;
+        if ((target as HTMLInputElement).checked) {
+          this.selectedKeys.add(key);
+        } else {
+          this.selectedKeys.delete(key);
+        }
+        this.render();
+      } else if (target.id === "trashRetention") {
+        this.eventEmitter.emit(
+          "setTrashRetention",
+          target.value === "" ? null : Number.parseInt(target.value, 10)
+        );
+      }
+    });
+
+    this.element.addEventListener("click", (e) => {
+      const action = (e.target as HTMLElement).getAttribute("data-action");
+      if (action === "close") {
+        this.close();
+      } else if (action === "restore") {
+        this.eventEmitter.emit("restoreDeleteData", [...this.selectedKeys]);
+      } else if (
+        action === "purge" &&
+        confirm(t("trash.confirmPurge", { count: this.selectedKeys.size }))
+      ) {
+        this.eventEmitter.emit("purgeDeletedData", [...this.selectedKeys]);
+      } else if (
+        action === "empty" &&
+        confirm(t("trash.confirmEmpty"))
+      ) {
+        this.eventEmitter.emit("emptyTrash");
+      }
+    });
+  }
+}
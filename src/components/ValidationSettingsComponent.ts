@@ -0,0 +1,512 @@
+import { BaseComponent } from "./BaseComponent.ts";
+import type { EventEmitter } from "./EventListener.ts";
+import { FocusTrap } from "./FocusTrap.ts";
+import type {
+  AppEvents,
+  RecordValues,
+  RuleOverrides,
+  RuleSpec,
+  RuleSpecs,
+} from "./Interfaces.ts";
+import { formSchema, getFieldLabel, getFieldSchema } from "./formSchema.ts";
+import { t } from "./i18n.ts";
+import { RULE_TYPES, getRuleSpecError } from "./ruleSpecs.ts";
+import { escapeHtml } from "./utils.ts";
+
+/**
+ * A rule being edited, with the name it is stored under.
+ */
+interface DraftRule {
+  name: string;
+  spec: RuleSpec;
+}
+
+/**
+ * A setting of a rule type, edited through its own input, with the key of
+ * its label. `list` settings are entered as comma-separated values.
+ */
+interface RuleParam {
+  name: string;
+  label: string;
+  kind: "number" | "text" | "list";
+}
+
+/**
+ * The settings of each rule type, besides its message.
+ */
+const RULE_PARAMS: Record<RuleSpec["type"], RuleParam[]> = {
+  required: [],
+  minLength: [{ name: "value", label: "settings.params.characters", kind: "number" }],
+  maxLength: [{ name: "value", label: "settings.params.characters", kind: "number" }],
+  pattern: [
+    { name: "value", label: "settings.params.pattern", kind: "text" },
+    { name: "flags", label: "settings.params.flags", kind: "text" },
+  ],
+  range: [
+    { name: "min", label: "settings.params.min", kind: "number" },
+    { name: "max", label: "settings.params.max", kind: "number" },
+  ],
+  date: [
+    { name: "minAge", label: "settings.params.minAge", kind: "number" },
+    { name: "maxAge", label: "settings.params.maxAge", kind: "number" },
+  ],
+  oneOf: [{ name: "values", label: "settings.params.values", kind: "list" }],
+};
+
+/**
+ * Builds the settings a newly added rule of a type starts with.
+ * @param type - The rule type.
+ * @returns The new rule.
+ */
+
+function createRuleSpec(type: RuleSpec["type"]): RuleSpec {
+  switch (type) {
+    case "minLength":
+      return { type, value: 1 };
+    case "maxLength":
+      return { type, value: 100 };
+    case "pattern":
+      return { type, value: ".*" };
+    case "oneOf":
+      return { type, values: [] };
+    default:
+      return { type };
+  }
+}
+
+/**
+ * Converts a field's rules to the list edited by the settings screen.
+ * @param specs - The rules, keyed by rule name.
+ * @returns Copies of the rules, in order.
+ */
+
+function toDraftRules(specs: RuleSpecs): DraftRule[] {
+  return Object.entries(specs).map(([name, spec]) => ({
+    name,
+    spec: JSON.parse(JSON.stringify(spec)) as RuleSpec,
+  }));
+}
+
+/**
+ * Converts an edited list of rules back to rules keyed by name.
+ * @param rules - The edited rules.
+ * @returns The rules, keyed by rule name.
+ */
+
+function toRuleSpecs(rules: DraftRule[]): RuleSpecs {
+  return Object.fromEntries(rules.map(({ name, spec }) => [name, spec]));
+}
+
+/**
+ * Lets administrators edit the declarative validation rules of every
+ * field: change their settings and messages, add and remove rules, and
+ * reset fields to the schema defaults. Rules that need code, such as the
+ * uniqueness checks, are listed but cannot be changed.
+ * @extends BaseComponent
+ */
+
+export class ValidationSettingsComponent extends BaseComponent {
+  private eventEmitter: EventEmitter<AppEvents>;
+  private focusTrap: FocusTrap;
+  private draft = new Map<keyof RecordValues, DraftRule[]>();
+  private errors = new Map<string, string>();
+  private isOpen = false;
+
+  /**
+   * Constructs the ValidationSettingsComponent.
+   * @param {string} elementId - The ID of the DOM element hosting the settings dialog.
+   * @param {EventEmitter<AppEvents>} eventEmitter - The event emitter used to save the rules.
+   */
+
+  constructor(elementId: string, eventEmitter: EventEmitter<AppEvents>) {
+    super(elementId);
+    this.focusTrap = new FocusTrap(this.element, () => this.close());
+    this.eventEmitter = eventEmitter;
+    this.addEventListeners();
+  }
+
+  /**
+   * Opens the settings dialog.
+   * @param {RuleOverrides} overrides - The saved rules that replace the schema defaults.
+   */
+
+  open(overrides: RuleOverrides): void {
+    this.focusTrap.activate();
+    this.isOpen = true;
+    this.errors.clear();
+    formSchema.forEach((field) => {
+      this.draft.set(
+        field.name,
+        toDraftRules(overrides[field.name] ?? field.ruleSpecs)
+      );
+    });
+    this.render();
+  }
+
+  /**
+   * Closes the settings dialog without saving.
+   */
+
+  close(): void {
+    this.isOpen = false;
+    this.element.innerHTML = "";
+    this.focusTrap.deactivate();
+  }
+
+  /**
+   * Renders the settings dialog.
+   */
+
+  render(): void {
+    if (!this.isOpen) {
+      return;
+    }
+
+    const typeOptions = RULE_TYPES.map(
+      (type) => `<option value="${type}">${t(`settings.ruleTypes.${type}`)}</option>`
+    ).join("");
+
+    const fields = formSchema
+      .map((field) => {
+        const rules = this.draft.get(field.name) ?? [];
+        const codeRules = Object.keys(field.rules);
+        return `
+          <fieldset class="rule-field">
+            <legend>${getFieldLabel(field.name)}</legend>
+            ${rules.length > 0
+            ? rules.map((rule, index) => this.renderRule(field.name, rule, index)).join("")
+            : `<p class="rule-empty">${t("settings.noRules")}</p>`
+          }
+            ${codeRules.length > 0
+            ? `<p class="rule-note">${t("settings.codeRules", { rules: codeRules })}</p>`
+            : ""
+          }
+            <div class="rule-field-actions">
+              <select id="ruleType-${field.name}" aria-label="${t("settings.ruleType")}">${typeOptions}</select>
+              <button type="button" data-action="add" data-field="${field.name}">${t("settings.addRule")}</button>
+              <button type="button" data-action="reset" data-field="${field.name}" ${this.isDefault(field.name) ? "disabled" : ""}>
+                ${t("settings.reset")}
+              </button>
+            </div>
+          </fieldset>
+        `;
+      })
+      .join("");
+
+    this.element.innerHTML = `
+      <style>
+        .validation-settings-modal {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          background-color: rgba(0, 0, 0, 0.5);
+          display: flex;
+          justify-content: center;
+          align-items: center;
+          z-index: 1000;
+        }
+        .validation-settings-content {
+          background: #fff;
+          padding: 30px;
+          border-radius: 8px;
+          box-shadow: 0 4px 15px rgba(0, 0, 0, 0.2);
+          width: 900px;
+          max-width: 95%;
+          max-height: 90vh;
+          overflow-y: auto;
+        }
+        .validation-settings-content h2 {
+          margin-bottom: 15px;
+          color: #0062cc;
+        }
+        .rule-field {
+          border: 1px solid #ddd;
+          border-radius: 4px;
+          padding: 10px 15px;
+          margin-bottom: 15px;
+        }
+        .rule-field legend {
+          font-weight: bold;
+          padding: 0 5px;
+        }
+        .rule-row {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: flex-end;
+          gap: 10px;
+          padding: 8px 0;
+          border-bottom: 1px solid #eee;
+        }
+        .rule-row label {
+          display: flex;
+          flex-direction: column;
+          margin: 0;
+          font-size: 12px;
+        }
+        .rule-row input {
+          padding: 6px;
+          font-size: 14px;
+        }
+        .rule-row input[type="number"] {
+          width: 90px;
+        }
+        .rule-row .rule-message {
+          flex: 1;
+          min-width: 200px;
+        }
+        .rule-type {
+          width: 120px;
+          font-weight: bold;
+          font-size: 14px;
+        }
+        .rule-error {
+          flex-basis: 100%;
+          margin: 0;
+          color: #dc3545;
+          font-size: 13px;
+        }
+        .rule-empty,
+        .rule-note {
+          margin: 8px 0;
+          color: #5a6268;
+          font-size: 13px;
+        }
+        .rule-field-actions,
+        .validation-settings-actions {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 10px;
+          margin-top: 10px;
+        }
+        .rule-field-actions select {
+          width: auto;
+          padding: 6px;
+          font-size: 14px;
+        }
+        .validation-settings-actions {
+          justify-content: flex-end;
+        }
+        .validation-settings-content button:disabled {
+          cursor: not-allowed;
+          opacity: 0.5;
+        }
+      </style>
+      <div class="validation-settings-modal">
+        <div class="validation-settings-content" role="dialog" aria-modal="true" aria-labelledby="validationSettingsTitle">
+          <h2 id="validationSettingsTitle">${t("settings.title")}</h2>
+          ${fields}
+          <div class="validation-settings-actions">
+            <button type="button" data-action="resetAll">${t("settings.resetAll")}</button>
+            <button type="button" data-action="cancel">${t("common.cancel")}</button>
+            <button type="button" data-action="save">${t("common.save")}</button>
+          </div>
+        </div>
+      </div>
+    `;
+    this.focusTrap.afterRender();
+  }
+
+  /**
+   * Renders the inputs of a rule.
+   * @param {keyof RecordValues} fieldName - The field the rule belongs to.
+   * @param {DraftRule} rule - The rule.
+   * @param {number} index - The position of the rule among the field's rules.
+   * @returns {string} The HTML for the rule.
+   */
+
+  private renderRule(
+    fieldName: keyof RecordValues,
+    rule: DraftRule,
+    index: number
+  ): string {
+    const settings = rule.spec as unknown as Record<string, unknown>;
+    const error = this.errors.get(`${fieldName}:${index}`);
+    const errorId = `rule-error-${fieldName}-${index}`;
+    const attributes = `data-field="${fieldName}" data-index="${index}"`;
+    const inputAttributes = error
+      ? `${attributes} aria-invalid="true" aria-describedby="${errorId}"`
+      : attributes;
+    const params = RULE_PARAMS[rule.spec.type]
+      .map((param) => {
+        const value = settings[param.name];
+        const text = Array.isArray(value) ? value.join(", ") : String(value ?? "");
+        return `
+          <label>
+            ${t(param.label)}
+            <input type="${param.kind === "number" ? "number" : "text"}" ${inputAttributes} data-param="${param.name}" value="${escapeHtml(text)}" />
+          </label>
+        `;
+      })
+      .join("");
+    const typeLabel = t(`settings.ruleTypes.${rule.spec.type}`);
+
+    return `
+      <div class="rule-row">
+        <span class="rule-type">${typeLabel}</span>
+        ${params}
+        <label class="rule-message">
+          ${t("settings.message")}
+          <input type="text" ${inputAttributes} data-param="message" value="${escapeHtml(rule.spec.message ?? "")}" placeholder="${t("settings.defaultMessage")}" />
+        </label>
+        <button type="button" data-action="remove" ${attributes} aria-label="${t("settings.removeRule", { type: typeLabel })}">${t("settings.remove")}</button>
+        ${error ? `<p class="rule-error" id="${errorId}" role="alert">${escapeHtml(error)}</p>` : ""}
+      </div>
+    `;
+  }
+
+  /**
+   * Checks whether a field's edited rules are the schema defaults.
+   * @param {keyof RecordValues} fieldName - The field name.
+   * @returns {boolean} `true` if the rules match the defaults.
+   */
+
+  private isDefault(fieldName: keyof RecordValues): boolean {
+    return (
+      JSON.stringify(toRuleSpecs(this.draft.get(fieldName) ?? [])) ===
+      JSON.stringify(getFieldSchema(fieldName)?.ruleSpecs)
+    );
+  }
+
+  /**
+   * Stores the value of a rule input in the edited rule.
+   * Empty inputs remove the setting, so the rule falls back to its default.
+   * @param {HTMLInputElement} input - The rule input.
+   */
+
+  private updateRuleParam(input: HTMLInputElement): void {
+    const fieldName = input.getAttribute("data-field") as keyof RecordValues;
+    const index = Number.parseInt(input.getAttribute("data-index") ?? "", 10);
+    const paramName = input.getAttribute("data-param") as string;
+    const rule = this.draft.get(fieldName)?.[index];
+    if (!rule) {
+      return;
+    }
+
+    const settings = rule.spec as unknown as Record<string, unknown>;
+    const param = RULE_PARAMS[rule.spec.type].find(
+      (candidate) => candidate.name === paramName
+    );
+    if (param?.kind === "list") {
+      settings[paramName] = input.value
+        .split(",")
+        .map((value) => value.trim())
+        .filter((value) => value !== "");
+    } else if (input.value.trim() === "") {
+      delete settings[paramName];
+    } else {
+      settings[paramName] =
+        param?.kind === "number" ? Number(input.value) : input.value;
+    }
+  }
+
+  /**
+   * Enables a field's reset button once its rules differ from the defaults.
+   * The button is updated in place so the input being edited keeps focus.
+   * @param {keyof RecordValues} fieldName - The field name.
+   */
+
+  private updateResetButton(fieldName: keyof RecordValues): void {
+    const button = this.element.querySelector(
+      `button[data-action="reset"][data-field="${fieldName}"]`
+    ) as HTMLButtonElement | null;
+    if (button) {
+      button.disabled = this.isDefault(fieldName);
+    }
+  }
+
+  /**
+   * Adds a rule of the type chosen for a field.
+   * Rules are stored by name, so a type used twice gets a numbered name.
+   * @param {keyof RecordValues} fieldName - The field name.
+   */
+
+  private addRule(fieldName: keyof RecordValues): void {
+    const select = this.element.querySelector(
+      `#ruleType-${fieldName}`
+    ) as HTMLSelectElement;
+    const type = select.value as RuleSpec["type"];
+    const rules = this.draft.get(fieldName) ?? [];
+    let name: string = type;
+    for (let count = 2; rules.some((rule) => rule.name === name); count++) {
+      name = `${type}${count}`;
+    }
+    this.draft.set(fieldName, [...rules, { name, spec: createRuleSpec(type) }]);
+    this.render();
+  }
+
+  /**
+   * Checks every edited rule and saves the ones that differ from the
+   * defaults, or shows what is wrong with the invalid ones.
+   */
+
+  private save(): void {
+    this.errors.clear();
+    this.draft.forEach((rules, fieldName) => {
+      rules.forEach((rule, index) => {
+        const error = getRuleSpecError(rule.spec);
+        if (error) {
+          this.errors.set(`${fieldName}:${index}`, error);
+        }
+      });
+    });
+    if (this.errors.size > 0) {
+      this.render();
+      return;
+    }
+
+    const overrides: RuleOverrides = {};
+    this.draft.forEach((rules, fieldName) => {
+      if (!this.isDefault(fieldName)) {
+        overrides[fieldName] = toRuleSpecs(rules);
+      }
+    });
+    this.eventEmitter.emit("saveValidationRules", overrides);
+    this.close();
+  }
+
+  /**
+   * Adds delegated event listeners for the dialog controls.
+   */
+
+  private addEventListeners(): void {
+    this.element.addEventListener("input", (e) => {
+      const target = e.target as HTMLInputElement;
+      if (target.hasAttribute("data-param")) {
+        this.updateRuleParam(target);
+        this.updateResetButton(target.getAttribute("data-field") as keyof RecordValues);
+      }
+    });
+
+    this.element.addEventListener("click", (e) => {
+      const target = e.target as HTMLElement;
+      const action = target.getAttribute("data-action");
+      const fieldName = target.getAttribute("data-field") as keyof RecordValues;
+      if (action === "cancel") {
+        this.close();
+      } else if (action === "save") {
+        this.save();
+      } else if (action === "add") {
+        this.addRule(fieldName);
+      } else if (action === "remove") {
+        const index = Number.parseInt(target.getAttribute("data-index") ?? "", 10);
+        this.draft.set(
+          fieldName,
+          (this.draft.get(fieldName) ?? []).filter((_rule, i) => i !== index)
+        );
+        this.errors.clear();
+        this.render();
+      } else if (action === "reset") {
+        this.draft.set(
+          fieldName,
+          toDraftRules(getFieldSchema(fieldName)?.ruleSpecs ?? {})
+        );
+        this.errors.clear();
+        this.render();
+      } else if (action === "resetAll") {
+        this.open({});
+      }
+    });
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Phone number and postal code conventions of a country.
+ */
+export interface CountryFormat {
+  /**
+   * The international calling code, without the leading `+`.
+   */
+  callingCode: string;
+
+  /**
+   * The prefix dialled before national numbers within the country, if any.
+   */
+  trunkPrefix: string;
+
+  /**
+   * Formats a valid national phone number for display.
+   * @param national - The national number, digits only.
+   * @returns The formatted number without the calling code.
+   */
+  formatPhone: (national: string) => string;
+
+  /**
+   * Matches a national phone number once spaces, dots, dashes and
+   * parentheses have been removed.
+   */
+  phonePattern: RegExp;
+
+  /**
+   * A valid phone number, shown in error messages.
+   */
+  phoneExample: string;
+
+  /**
+   * The message key of what the country calls its postal code.
+   */
+  postalCodeLabel: string;
+
+  /**
+   * Matches a valid postal code.
+   */
+  postalCodePattern: RegExp;
+
+  /**
+   * Valid postal codes, shown in error messages.
+   */
+  postalCodeExample: string;
+}
+
+/**
+ * Formats a North American number as `(415) 555-0132`.
+ * @param national - The ten-digit national number.
+ * @returns The formatted number.
+ */
+
+function formatNanpPhone(national: string): string {
+  return `(${national.slice(0, 3)}) ${national.slice(3, 6)}-${national.slice(6)}`;
+}
+
+/**
+ * Formats of the countries offered by the form, keyed by country name.
+ */
+const COUNTRY_FORMATS: Record<string, CountryFormat> = {
+  INDIA: {
+    callingCode: "91",
+    trunkPrefix: "0",
+    formatPhone: (national) => `${national.slice(0, 5)} ${national.slice(5)}`,
+    phonePattern: /^[6-9]\d{9}$/,
+    phoneExample: "98765 43210",
+    postalCodeLabel: "postalCodes.pinCode",
+    postalCodePattern: /^[1-9]\d{5}$/,
+    postalCodeExample: "110001",
+  },
+  USA: {
+    callingCode: "1",
+    trunkPrefix: "1",
+    formatPhone: formatNanpPhone,
+    phonePattern: /^[2-9]\d{2}[2-9]\d{6}$/,
+    phoneExample: "(415) 555-0132",
+    postalCodeLabel: "postalCodes.zipCode",
+    postalCodePattern: /^\d{5}(-\d{4})?$/,
+    postalCodeExample: "12345, 12345-6789",
+  },
+  Canada: {
+    callingCode: "1",
+    trunkPrefix: "1",
+    formatPhone: formatNanpPhone,
+    phonePattern: /^[2-9]\d{2}[2-9]\d{6}$/,
+    phoneExample: "(416) 555-0199",
+    postalCodeLabel: "postalCodes.postalCode",
+    postalCodePattern: /^[A-Za-z]\d[A-Za-z][ -]?\d[A-Za-z]\d$/,
+    postalCodeExample: "K1A 0B6",
+  },
+};
+
+/**
+ * Looks up the formats of a country.
+ * @param country - The country name.
+ * @returns The country formats, or `undefined` for an unknown country.
+ */
+
+export function getCountryFormat(country: string): CountryFormat | undefined {
+  return COUNTRY_FORMATS[country];
+}
+
+/**
+ * Lists the countries whose postal code format a code matches.
+ * @param postalCode - The postal code as entered.
+ * @returns The matching country names.
+ */
+
+export function getCountriesForPostalCode(postalCode: string): string[] {
+  const code = postalCode.trim();
+  return Object.keys(COUNTRY_FORMATS).filter((country) =>
+    COUNTRY_FORMATS[country].postalCodePattern.test(code)
+  );
+}
+
+/**
+ * Removes the separators people commonly type in phone numbers.
+ * @param phone - The phone number as entered.
+ * @returns The phone number without spaces, dots, dashes and parentheses.
+ */
+
+export function stripPhoneSeparators(phone: string): string {
+  return phone.replace(/[\s().-]/g, "");
+}
+
+/**
+ * Extracts the national number from a phone number entered with or without
+ * separators, an international prefix (`+91`, `0091`) or a trunk prefix.
+ * @param phone - The phone number as entered or stored.
+ * @param format - The formats of the record's country.
+ * @returns The national number, or `null` if the number has a different
+ * calling code or is not a valid number for the country.
+ */
+
+export function toNationalPhone(
+  phone: string,
+  format: CountryFormat
+): string | null {
+  let digits = stripPhoneSeparators(phone.trim());
+  const international = /^(\+|00)(\d+)$/.exec(digits);
+  if (international) {
+    if (!international[2].startsWith(format.callingCode)) {
+      return null;
+    }
+    digits = international[2].slice(format.callingCode.length);
+  } else if (
+    !format.phonePattern.test(digits) &&
+    digits.startsWith(format.trunkPrefix)
+  ) {
+    digits = digits.slice(format.trunkPrefix.length);
+  }
+  return format.phonePattern.test(digits) ? digits : null;
+}
+
+/**
+ * Converts a phone number to E.164, inferring the calling code from the country.
+ * @param phone - The phone number as entered or stored.
+ * @param country - The record's country.
+ * @returns The number as `+<calling code><national number>`, or `null` if the
+ * country is unknown or the number is not valid for it.
+ */
+
+export function normalizePhone(phone: string, country: string): string | null {
+  const format = getCountryFormat(country);
+  const national = format && toNationalPhone(phone, format);
+  return format && national ? `+${format.callingCode}${national}` : null;
+}
+
+/**
+ * Formats a stored phone number for display in its country's style,
+ * e.g. `+91 98765 43210` or `+1 (415) 555-0132`.
+ * @param phone - The stored phone number.
+ * @param country - The record's country.
+ * @returns The formatted number, or the number unchanged if it cannot be parsed.
+ */
+
+export function formatPhone(phone: string, country: string): string {
+  const format = getCountryFormat(country);
+  const national = format && toNationalPhone(phone, format);
+  return format && national
+    ? `+${format.callingCode} ${format.formatPhone(national)}`
+    : phone;
+}
@@ -0,0 +1,83 @@
+/**
+ * Parses CSV text into rows of cells.
+ * Supports quoted cells containing commas, escaped quotes (`""`) and line breaks,
+ * as well as both `\n` and `\r\n` line endings. Blank lines are skipped.
+ *
+ * @param text - The CSV text to parse.
+ * @returns An array of rows, each an array of cell values.
+ */
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== "")) {
+      rows.push(row);
+    }
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Serializes rows of cells into CSV text.
+ * Cells containing commas, quotes, line breaks or surrounding whitespace are
+ * quoted, and embedded quotes are escaped by doubling them. Rows are joined
+ * with `\r\n` as described in RFC 4180.
+ *
+ * @param rows - The rows to serialize, each an array of cell values.
+ * @returns The CSV text.
+ */
+
+export function toCsv(rows: unknown[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const cell = value === undefined || value === null ? "" : String(value);
+          return /[",\r\n]|^\s|\s$/.test(cell)
+            ? `"${cell.replace(/"/g, '""')}"`
+            : cell;
+        })
+        .join(",")
+    )
+    .join("\r\n");
+}
@@ -0,0 +1,194 @@
+import type { FormData } from "./Interfaces.ts";
+import { normalizePhone, stripPhoneSeparators } from "./countryFormats.ts";
+
+/**
+ * Why two records were considered duplicates.
+ */
+export type DuplicateReason = "email" | "phone" | "name";
+
+/**
+ * Records that are likely to describe the same person.
+ */
+export interface DuplicateGroup {
+  /**
+   * The records, most recently saved first.
+   */
+  records: FormData[];
+
+  /**
+   * Why the records were grouped, in the order of `DUPLICATE_REASONS`.
+   */
+  reasons: DuplicateReason[];
+}
+
+/**
+ * Every duplicate reason, in the order they are listed.
+ */
+export const DUPLICATE_REASONS: DuplicateReason[] = ["email", "phone", "name"];
+
+/**
+ * How similar two names must be, from 0 to 1, for their records to be
+ * considered duplicates. Allows about one typo in a ten-letter name.
+ */
+export const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * Converts an email address to the form it is compared in.
+ * @param email - The email address.
+ * @returns The trimmed, lowercased address.
+ */
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Converts a phone number of a record to the form it is compared in.
+ * @param record - The record.
+ * @returns The number in E.164 form, or without separators if it cannot be
+ * read for the record's country.
+ */
+
+function normalizeRecordPhone(record: FormData): string {
+  const phone = String(record.phone ?? "");
+  return normalizePhone(phone, record.country) ?? stripPhoneSeparators(phone.trim());
+}
+
+/**
+ * Converts a name to the form it is compared in: lowercase, without
+ * accents or punctuation, with its words sorted so that "Smith, John" and
+ * "John Smith" compare equal.
+ * @param name - The name.
+ * @returns The normalized name.
+ */
+
+export function normalizeName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+}
+
+/**
+ * Counts the single-character insertions, deletions and substitutions
+ * needed to turn one string into another.
+ * @param a - The first string.
+ * @param b - The second string.
+ * @returns The edit distance.
+ */
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Rates how similar two names are, ignoring case, accents, punctuation and
+ * word order.
+ * @param a - The first name.
+ * @param b - The second name.
+ * @returns A score from 0 (nothing in common, or a name is empty) to 1 (equal).
+ */
+
+export function nameSimilarity(a: string, b: string): number {
+  const first = normalizeName(a);
+  const second = normalizeName(b);
+  const length = Math.max(first.length, second.length);
+  if (!first || !second) {
+    return 0;
+  }
+  return 1 - editDistance(first, second) / length;
+}
+
+/**
+ * Lists why two records look like duplicates.
+ * @param a - The first record.
+ * @param b - The second record.
+ * @returns The matching reasons, empty if the records look unrelated.
+ */
+
+function compareRecords(a: FormData, b: FormData): DuplicateReason[] {
+  const reasons: DuplicateReason[] = [];
+  const email = normalizeEmail(String(a.email ?? ""));
+  if (email && email === normalizeEmail(String(b.email ?? ""))) {
+    reasons.push("email");
+  }
+  const phone = normalizeRecordPhone(a);
+  if (phone && phone === normalizeRecordPhone(b)) {
+    reasons.push("phone");
+  }
+  if (nameSimilarity(a.name, b.name) >= NAME_SIMILARITY_THRESHOLD) {
+    reasons.push("name");
+  }
+  return reasons;
+}
+
+/**
+ * Groups records that are likely to describe the same person: records
+ * sharing an email address or a phone number, or with similar names.
+ * Matches are transitive, so a record matching any record of a group joins it.
+ * Every pair of records is compared, which is fine for the few thousand
+ * records kept in local storage.
+ * @param records - The records to search.
+ * @returns The groups of two or more records, largest first.
+ */
+
+export function findDuplicateGroups(records: FormData[]): DuplicateGroup[] {
+  // Union-find over record indexes, each root collecting its group's reasons.
+  const parents = records.map((_, index) => index);
+  const reasons = records.map(() => new Set<DuplicateReason>());
+  const findRoot = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+
+  for (let i = 0; i < records.length; i++) {
+    for (let j = i + 1; j < records.length; j++) {
+      const matches = compareRecords(records[i], records[j]);
+      if (matches.length === 0) {
+        continue;
+      }
+      const rootI = findRoot(i);
+      const rootJ = findRoot(j);
+      if (rootI !== rootJ) {
+        parents[rootJ] = rootI;
+        reasons[rootJ].forEach((reason) => reasons[rootI].add(reason));
+      }
+      matches.forEach((reason) => reasons[rootI].add(reason));
+    }
+  }
+
+  const groups = new Map<number, FormData[]>();
+  records.forEach((record, index) => {
+    const root = findRoot(index);
+    groups.set(root, [...(groups.get(root) ?? []), record]);
+  });
+
+  return [...groups.entries()]
+    .filter(([, group]) => group.length > 1)
+    .map(([root, group]) => ({
+      records: [...group].sort((a, b) =>
+        String(b.timeStamp ?? "").localeCompare(String(a.timeStamp ?? ""))
+      ),
+      reasons: DUPLICATE_REASONS.filter((reason) => reasons[root].has(reason)),
+    }))
+    .sort((a, b) => b.records.length - a.records.length);
+}
@@ -0,0 +1,430 @@
+import type { RecordValues, RuleSpecs } from "./Interfaces.ts";
+import { AppStateManager } from "./StateManager.ts";
+import { getLocationProvider } from "./LocationProviders.ts";
+import {
+  getCountryFormat,
+  normalizePhone,
+  stripPhoneSeparators,
+  toNationalPhone,
+} from "./countryFormats.ts";
+import { calculateAge } from "./utils.ts";
+import { t } from "./i18n.ts";
+import type { ValidationRule } from "./validation.ts";
+
+/**
+ * How a field is rendered in the form.
+ */
+export type FieldWidget = "input" | "select";
+
+/**
+ * Declares a single form field. The form, the validation rules, the table
+ * and the import/export columns are all generated from these definitions.
+ * The field label is the `fields.<name>` message of the catalogs.
+ */
+export interface FieldSchema {
+  /**
+   * The record property the field edits. Also used as the input ID and name.
+   */
+  name: keyof RecordValues;
+
+  /**
+   * The HTML input type, also used to convert the submitted value.
+   */
+  type: "text" | "tel" | "email" | "date" | "number";
+
+  /**
+   * Whether the field is a free-form input or a dropdown.
+   */
+  widget: FieldWidget;
+
+  /**
+   * The default declarative validation rules, checked in order. They can be
+   * stored as JSON, so administrators can override them from the settings screen.
+   */
+  ruleSpecs: RuleSpecs;
+
+  /**
+   * Validation rules that need code, such as cross-field and async checks.
+   * They are checked in order after the declarative rules.
+   */
+  rules: { [rule: string]: ValidationRule };
+
+  /**
+   * The value the field starts with when adding a record.
+   */
+  defaultValue: string;
+
+  /**
+   * Whether the field is shown as a table column until the user changes
+   * the table layout.
+   */
+  showInTable: boolean;
+
+  /**
+   * CSV header names recognized as this field by the import, compared
+   * lowercased with everything but letters and digits removed.
+   */
+  aliases: string[];
+
+  /**
+   * Fields whose rules read this field's value. When this field changes,
+   * those fields are derived again and re-validated.
+   */
+  dependsOn?: (keyof RecordValues)[];
+
+  /**
+   * Computes the field from the other fields. While it returns a value the
+   * field is filled in automatically and cannot be edited.
+   * @param values - The current values of every field.
+   * @returns The derived value, or `null` if it cannot be derived.
+   */
+  derive?: (values: Partial<Record<string, string>>) => string | null;
+
+  /**
+   * Converts a valid value to the canonical form it is stored in.
+   * @param value - The value as entered.
+   * @param values - The values of every field.
+   * @returns The value to store.
+   */
+  normalize?: (value: string, values: Partial<Record<string, string>>) => string;
+}
+
+/**
+ * Builds an async rule that rejects a value already used by another record.
+ * The record being edited is ignored, so saving it unchanged is allowed.
+ * @param field - The record field to compare.
+ * @param normalize - Converts a value of a record in the given country to the form it is compared in.
+ * @param messageKey - The key of the message shown when the value is taken.
+ * @returns The validation rule.
+ */
+
+function unique(
+  field: keyof RecordValues,
+  normalize: (value: string, country: string) => string,
+  messageKey: string
+): ValidationRule {
+  return {
+    async: true,
+    logic: async (value, { editId, values }) => {
+      const normalized = normalize(value, values.country ?? "");
+      if (normalized === "") {
+        return true;
+      }
+      return !AppStateManager.getInstance()
+        .getData()
+        .some(
+          (record) =>
+            record.id !== editId &&
+            normalize(String(record[field] ?? ""), record.country) ===
+              normalized
+        );
+    },
+    errorMessage: () => t(messageKey),
+  };
+}
+
+/**
+ * Converts the values of the fields that must be unique to the form they
+ * are compared in: email addresses ignoring case, and phone numbers in
+ * E.164 form so formatting and prefixes are ignored.
+ */
+const uniqueNormalizers = {
+  email: (value: string) => value.trim().toLowerCase(),
+  phone: (value: string, country: string) =>
+    normalizePhone(value, country) ?? stripPhoneSeparators(value.trim()),
+};
+
+/**
+ * Rejects an email address that belongs to another record, ignoring case.
+ */
+export const uniqueEmail = unique(
+  "email",
+  uniqueNormalizers.email,
+  "validation.emailTaken"
+);
+
+/**
+ * Rejects a phone number that belongs to another record, comparing
+ * numbers in E.164 form so formatting and prefixes are ignored.
+ */
+export const uniquePhone = unique(
+  "phone",
+  uniqueNormalizers.phone,
+  "validation.phoneTaken"
+);
+
+/**
+ * Converts a value of a field that must be unique to the form the
+ * uniqueness rules compare it in, so values can be checked against each
+ * other before they are saved.
+ * @param field - The field.
+ * @param value - The value.
+ * @param country - The country of the record, used to read phone numbers.
+ * @returns The normalized value, or `null` if the field need not be unique.
+ */
+
+export function getUniqueValue(
+  field: keyof RecordValues,
+  value: string,
+  country: string
+): string | null {
+  return field === "email" || field === "phone"
+    ? uniqueNormalizers[field](value, country)
+    : null;
+}
+
+/**
+ * The form schema, in display order.
+ */
+
+export const formSchema: FieldSchema[] = [
+  {
+    name: "name",
+    type: "text",
+    widget: "input",
+    defaultValue: "",
+    showInTable: true,
+    aliases: ["name", "fullname", "personname"],
+    ruleSpecs: {
+      required: { type: "required" },
+      minLength: { type: "minLength", value: 3 },
+      maxLength: { type: "maxLength", value: 50 },
+    },
+    rules: {},
+  },
+  {
+    name: "phone",
+    type: "tel",
+    widget: "input",
+    defaultValue: "",
+    showInTable: true,
+    aliases: ["phone", "phonenumber", "mobile", "mobilenumber", "mobileno", "cell", "telephone", "tel", "contact", "contactnumber"],
+    dependsOn: ["country"],
+    normalize: (value, { country }) =>
+      normalizePhone(value, country ?? "") ?? value.trim(),
+    ruleSpecs: {
+      required: { type: "required", message: "validation.phoneRequired" },
+    },
+    rules: {
+      format: {
+        logic: (value, { values }) => {
+          const format = getCountryFormat(values.country ?? "");
+          return format
+            ? toNationalPhone(value, format) !== null
+            : /^\d{10}$/.test(stripPhoneSeparators(value.trim()));
+        },
+        errorMessage: (_value, { values }) => {
+          const format = getCountryFormat(values.country ?? "");
+          return format
+            ? t("validation.phoneFormat", {
+              country: values.country,
+              example: format.phoneExample,
+            })
+            : t("validation.phoneDigits");
+        },
+      },
+      uniquePhone,
+    },
+  },
+  {
+    name: "email",
+    type: "email",
+    widget: "input",
+    defaultValue: "",
+    showInTable: true,
+    aliases: ["email", "emailaddress", "mail", "emailid"],
+    ruleSpecs: {
+      required: { type: "required" },
+      format: {
+        type: "pattern",
+        value: "^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$",
+        message: "validation.emailFormat",
+      },
+    },
+    rules: {
+      uniqueEmail,
+    },
+  },
+  {
+    name: "dob",
+    type: "date",
+    widget: "input",
+    defaultValue: "",
+    showInTable: false,
+    aliases: ["dob", "dateofbirth", "birthdate", "birthday"],
+    ruleSpecs: {
+      required: { type: "required", message: "validation.dobRequired" },
+      ageLimit: { type: "date", minAge: 10, maxAge: 100 },
+    },
+    rules: {},
+  },
+  {
+    name: "age",
+    type: "number",
+    widget: "input",
+    defaultValue: "",
+    showInTable: false,
+    aliases: ["age"],
+    dependsOn: ["dob"],
+    derive: ({ dob }) => {
+      const age = calculateAge(dob ?? "");
+      return age === null ? null : age.toString();
+    },
+    ruleSpecs: {
+      required: { type: "required" },
+      validRange: { type: "range", min: 10, max: 100 },
+    },
+    rules: {
+      matchesDob: {
+        logic: (value, { values }) => {
+          const age = calculateAge(values.dob ?? "");
+          return age === null || Number.parseInt(value, 10) === age;
+        },
+        errorMessage: () => t("validation.ageMismatch"),
+      },
+    },
+  },
+  {
+    name: "country",
+    type: "text",
+    widget: "select",
+    defaultValue: "",
+    showInTable: true,
+    aliases: ["country", "nation"],
+    ruleSpecs: {
+      required: { type: "required" },
+    },
+    rules: {},
+  },
+  {
+    name: "state",
+    type: "text",
+    widget: "select",
+    defaultValue: "",
+    showInTable: false,
+    aliases: ["state", "province", "region"],
+    ruleSpecs: {
+      required: { type: "required" },
+    },
+    rules: {},
+  },
+  {
+    name: "city",
+    type: "text",
+    widget: "select",
+    defaultValue: "",
+    showInTable: false,
+    aliases: ["city", "town"],
+    dependsOn: ["zip"],
+    ruleSpecs: {
+      required: { type: "required" },
+    },
+    rules: {
+      matchesPostalCode: {
+        async: true,
+        logic: async (value, { values }) => {
+          const location = await getLocationProvider().lookupPostalCode(
+            values.zip ?? ""
+          );
+          return (
+            !location ||
+            (location.country === values.country &&
+              location.state === values.state &&
+              location.city === value)
+          );
+        },
+        errorMessage: (value, { values }) =>
+          t("validation.cityPostalCode", { city: value, zip: values.zip }),
+      },
+    },
+  },
+  {
+    name: "zip",
+    type: "text",
+    widget: "input",
+    defaultValue: "",
+    showInTable: false,
+    aliases: ["zip", "zipcode", "postalcode", "postcode", "pincode", "pin"],
+    dependsOn: ["country"],
+    ruleSpecs: {
+      required: { type: "required", message: "validation.zipRequired" },
+    },
+    rules: {
+      format: {
+        logic: (value, { values }) => {
+          const format = getCountryFormat(values.country ?? "");
+          return !format || format.postalCodePattern.test(value.trim());
+        },
+        errorMessage: (_value, { values }) => {
+          const format = getCountryFormat(values.country ?? "");
+          return format
+            ? t("validation.postalCodeFormat", {
+              label: t(format.postalCodeLabel),
+              country: values.country,
+              example: format.postalCodeExample,
+            })
+            : t("validation.zipFormat");
+        },
+      },
+    },
+  },
+];
+
+/**
+ * Looks up the schema of a field.
+ * @param name - The field name.
+ * @returns The field schema, or `undefined` if no field has that name.
+ */
+
+export function getFieldSchema(name: string): FieldSchema | undefined {
+  return formSchema.find((field) => field.name === name);
+}
+
+/**
+ * Returns the label of a field in the current language.
+ * @param name - The field name.
+ * @returns The field label.
+ */
+
+export function getFieldLabel(name: string): string {
+  return t(`fields.${name}`);
+}
+
+/**
+ * Lists the fields that depend on a field.
+ * @param name - The field name.
+ * @returns The schemas of the fields whose `dependsOn` includes the field.
+ */
+
+export function getDependentFields(name: string): FieldSchema[] {
+  return formSchema.filter((field) =>
+    field.dependsOn?.some((dependency) => dependency === name)
+  );
+}
+
+/**
+ * Builds record values from raw string values, normalizing each one and
+ * converting it according to its field type.
+ * @param getValue - Returns the raw value of a field.
+ * @returns The record values.
+ */
+
+export function buildRecordValues(
+  getValue: (name: keyof RecordValues) => string
+): RecordValues {
+  const rawValues: Partial<Record<string, string>> = {};
+  formSchema.forEach((field) => {
+    rawValues[field.name] = getValue(field.name);
+  });
+
+  const values: Record<string, string | number> = {};
+  formSchema.forEach((field) => {
+    const rawValue = rawValues[field.name] ?? "";
+    const value = field.normalize
+      ? field.normalize(rawValue, rawValues)
+      : rawValue;
+    values[field.name] =
+      field.type === "number" ? Number.parseInt(value, 10) : value;
+  });
+  return values as unknown as RecordValues;
+}
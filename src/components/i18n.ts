@@ -0,0 +1,209 @@
+import { parseDate } from "./utils.ts";
+
+/**
+ * The languages the interface is translated into.
+ */
+export type Locale = "en" | "hi" | "fr";
+
+/**
+ * A message whose wording depends on a count, keyed by plural category.
+ * The `other` form is used for categories a translation leaves out.
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>>;
+
+/**
+ * A message catalog, keyed by message key.
+ */
+export type MessageCatalog = Record<string, string | PluralMessage>;
+
+/**
+ * The supported languages, with the name each is listed under in its own
+ * language and the locale dates and numbers are formatted for.
+ */
+export const LOCALES: Record<Locale, { name: string; tag: string }> = {
+  en: { name: "English", tag: "en-US" },
+  hi: { name: "हिन्दी", tag: "hi-IN" },
+  fr: { name: "Français", tag: "fr-CA" },
+};
+
+/**
+ * The language whose catalog supplies messages missing from the others.
+ */
+export const DEFAULT_LOCALE: Locale = "en";
+
+/**
+ * The bundled message catalogs, keyed by file path. Each file is named
+ * after its locale.
+ */
+const CATALOG_FILES = import.meta.glob<MessageCatalog>(
+  "../data/messages/*.json",
+  { eager: true, import: "default" }
+);
+
+/**
+ * The language messages are currently shown in.
+ */
+let currentLocale: Locale = DEFAULT_LOCALE;
+
+/**
+ * Returns the message catalog of a language.
+ * @param locale - The language.
+ * @returns The catalog, or an empty one if none is bundled.
+ */
+
+function getCatalog(locale: Locale): MessageCatalog {
+  return CATALOG_FILES[`../data/messages/${locale}.json`] ?? {};
+}
+
+/**
+ * Checks whether a value is a supported language.
+ * @param value - The value to check.
+ * @returns `true` if the value is a supported locale.
+ */
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && Object.keys(LOCALES).includes(value);
+}
+
+/**
+ * Picks the supported language that best matches the browser settings.
+ * @param languages - The preferred languages, most preferred first.
+ * @returns The first supported language, or the default one.
+ */
+
+export function detectLocale(
+  languages: readonly string[] = navigator.languages
+): Locale {
+  for (const language of languages) {
+    const code = language.toLowerCase().split("-")[0];
+    if (isLocale(code)) {
+      return code;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Returns the language messages are currently shown in.
+ * @returns The current locale.
+ */
+
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+/**
+ * Changes the language of the messages. Components show the new language
+ * the next time they render.
+ * @param locale - The new locale.
+ */
+
+export function setLocale(locale: Locale): void {
+  currentLocale = locale;
+}
+
+/**
+ * Replaces `{name}` placeholders in a message.
+ * Placeholders without a matching parameter are left as they are.
+ * @param message - The message template.
+ * @param params - The values to insert.
+ * @returns The message with the placeholders replaced.
+ */
+
+export function formatMessage(
+  message: string,
+  params: Record<string, unknown>
+): string {
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined || value === null) {
+      return placeholder;
+    }
+    return Array.isArray(value) ? value.join(", ") : String(value);
+  });
+}
+
+/**
+ * Translates a message into the current language.
+ * Messages missing from its catalog are taken from the default language,
+ * and a key found in no catalog is used as the message itself, so
+ * free-text messages pass through unchanged. Plural messages are chosen
+ * by the `count` parameter, and numbers are formatted for the language.
+ * @param key - The message key.
+ * @param params - The values to insert into the message.
+ * @returns The translated message.
+ */
+
+export function t(key: string, params: Record<string, unknown> = {}): string {
+  const locale = key in getCatalog(currentLocale) ? currentLocale : DEFAULT_LOCALE;
+  const message = getCatalog(locale)[key] ?? key;
+  const template =
+    typeof message === "string"
+      ? message
+      : (message[
+        new Intl.PluralRules(LOCALES[locale].tag).select(Number(params.count))
+      ] ?? message.other ?? key);
+
+  const formattedParams = Object.fromEntries(
+    Object.entries(params).map(([name, value]) => [
+      name,
+      typeof value === "number" ? formatNumber(value) : value,
+    ])
+  );
+  return formatMessage(template, formattedParams);
+}
+
+/**
+ * Lists a message in every supported language, such as to recognize a
+ * field label whatever language a file was exported in.
+ * @param key - The message key.
+ * @returns The distinct translations. Plural messages are left out.
+ */
+
+export function getTranslations(key: string): string[] {
+  const translations = (Object.keys(LOCALES) as Locale[])
+    .map((locale) => getCatalog(locale)[key])
+    .filter((message): message is string => typeof message === "string");
+  return [...new Set(translations)];
+}
+
+/**
+ * Formats a number for the current language.
+ * @param value - The number.
+ * @returns The formatted number.
+ */
+
+export function formatNumber(value: number): string {
+  return new Intl.NumberFormat(LOCALES[currentLocale].tag).format(value);
+}
+
+/**
+ * Formats a date, without the time, for the current language.
+ * @param value - The date, as `YYYY-MM-DD` or any format `Date` parses.
+ * @returns The formatted date, or the value unchanged if it is not a valid date.
+ */
+
+export function formatDate(value: string): string {
+  const date = parseDate(value);
+  return date
+    ? new Intl.DateTimeFormat(LOCALES[currentLocale].tag, {
+      dateStyle: "medium",
+    }).format(date)
+    : value;
+}
+
+/**
+ * Formats a date and time for the current language.
+ * @param value - The ISO date string.
+ * @returns The formatted date and time, or the value unchanged if it is not a valid date.
+ */
+
+export function formatDateTime(value: string): string {
+  const date = new Date(value);
+  return isNaN(date.getTime())
+    ? value
+    : new Intl.DateTimeFormat(LOCALES[currentLocale].tag, {
+      dateStyle: "medium",
+      timeStyle: "short",
+    }).format(date);
+}
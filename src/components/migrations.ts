@@ -0,0 +1,182 @@
+import { normalizePhone } from "./countryFormats.ts";
+
+/**
+ * The versioned shape in which records are persisted.
+ */
+export interface StorageEnvelope {
+  version: number;
+  records: unknown[];
+}
+
+/**
+ * A single upgrade step applied to persisted records.
+ */
+export interface Migration {
+  /**
+   * The storage version produced by this step.
+   */
+  version: number;
+
+  /**
+   * A short description of what the step changes.
+   */
+  description: string;
+
+  /**
+   * Upgrades records from the previous version.
+   * @param records - The records stored at the previous version.
+   * @returns The upgraded records.
+   * @throws {Error} Throws an error if the records cannot be upgraded.
+   */
+  migrate: (records: unknown[]) => unknown[];
+}
+
+/**
+ * Returns a record as a plain object, failing the migration for anything else.
+ * @param record - The stored record.
+ * @param index - The position of the record, used in the error message.
+ * @returns The record as a key/value object.
+ */
+
+function asObject(record: unknown, index: number): Record<string, unknown> {
+  if (!record || typeof record !== "object" || Array.isArray(record)) {
+    throw new Error(`Record ${index} is not an object`);
+  }
+  return record as Record<string, unknown>;
+}
+
+/**
+ * Registry of migration steps, in ascending version order.
+ * Version 0 is the legacy format: a bare array of records.
+ * To change the stored record shape, append a step with the next version.
+ */
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description:
+      "Fill in missing FormData fields and rename the legacy `timestamp` field to `timeStamp`",
+    migrate: (records) =>
+      records.map((record, index) => {
+        const { timestamp, ...rest } = asObject(record, index);
+        const text = (value: unknown) =>
+          value === undefined || value === null ? "" : String(value);
+        return {
+          ...rest,
+          id: text(rest.id) || `${Date.now()}-${index}`,
+          name: text(rest.name),
+          phone: text(rest.phone),
+          email: text(rest.email),
+          dob: text(rest.dob),
+          age: Number(rest.age) || 0,
+          country: text(rest.country),
+          state: text(rest.state),
+          city: text(rest.city),
+          zip: text(rest.zip),
+          restoreData: Array.isArray(rest.restoreData) ? rest.restoreData : [],
+          timeStamp: text(rest.timeStamp ?? timestamp),
+        };
+      }),
+  },
+  {
+    version: 2,
+    description:
+      "Replace the unused `restoreData` field with a `history` of revisions",
+    migrate: (records) =>
+      records.map((record, index) => {
+        const { restoreData, ...rest } = asObject(record, index);
+        return {
+          ...rest,
+          history: Array.isArray(rest.history) ? rest.history : [],
+        };
+      }),
+  },
+  {
+    version: 3,
+    description:
+      "Normalize phone numbers, including those in the revision history, to E.164",
+    migrate: (records) =>
+      records.map((record, index) => {
+        const item = asObject(record, index);
+        const normalize = (values: Record<string, unknown>) => ({
+          ...values,
+          phone:
+            normalizePhone(String(values.phone ?? ""), String(values.country ?? "")) ??
+            values.phone,
+        });
+        return {
+          ...normalize(item),
+          history: (item.history as { values?: Record<string, unknown> }[]).map(
+            (revision) =>
+              revision && revision.values
+                ? { ...revision, values: normalize(revision.values) }
+                : revision
+          ),
+        };
+      }),
+  },
+];
+
+/**
+ * The storage version written by this build.
+ */
+export const CURRENT_STORAGE_VERSION =
+  migrations[migrations.length - 1].version;
+
+/**
+ * Wraps records in an envelope at the current storage version.
+ * @param records - The records to persist.
+ * @returns The envelope to store.
+ */
+
+export function createEnvelope(records: unknown[]): StorageEnvelope {
+  return { version: CURRENT_STORAGE_VERSION, records };
+}
+
+/**
+ * Upgrades a parsed storage payload to the current version by running every
+ * migration step newer than the payload's version, in order.
+ * @param payload - The parsed payload, either an envelope or a legacy bare array.
+ * @returns The envelope at the current storage version.
+ * @throws {Error} Throws an error if the payload is not recognized, is newer than
+ * this build supports, or a migration step fails.
+ */
+
+export function migrateEnvelope(payload: unknown): StorageEnvelope {
+  let envelope: StorageEnvelope;
+  if (Array.isArray(payload)) {
+    envelope = { version: 0, records: payload };
+  } else if (
+    payload &&
+    typeof payload === "object" &&
+    typeof (payload as StorageEnvelope).version === "number" &&
+    Array.isArray((payload as StorageEnvelope).records)
+  ) {
+    envelope = payload as StorageEnvelope;
+  } else {
+    throw new Error("Unrecognized storage format");
+  }
+
+  if (envelope.version > CURRENT_STORAGE_VERSION) {
+    throw new Error(
+      `Storage version ${envelope.version} is newer than the supported version ${CURRENT_STORAGE_VERSION}`
+    );
+  }
+
+  for (const migration of migrations) {
+    if (migration.version > envelope.version) {
+      try {
+        envelope = {
+          version: migration.version,
+          records: migration.migrate(envelope.records),
+        };
+      } catch (error) {
+        throw new Error(
+          `Migration to version ${migration.version} failed: ${(error as Error).message}`
+        );
+      }
+    }
+  }
+
+  return envelope;
+}
@@ -0,0 +1,56 @@
+import type { FormData, RecordValues, Revision } from "./Interfaces.ts";
+import { formSchema } from "./formSchema.ts";
+
+/**
+ * Extracts the editable values of a record.
+ * @param record - The record.
+ * @returns The record values without ID, history and timestamp.
+ */
+
+export function getRecordValues(record: FormData): RecordValues {
+  const { id, history, timeStamp, ...values } = record;
+  return values;
+}
+
+/**
+ * Captures the current state of a record as a revision.
+ * @param record - The record.
+ * @returns A revision holding the record values and the time they were saved.
+ */
+
+export function toRevision(record: FormData): Revision {
+  return { timeStamp: record.timeStamp, values: getRecordValues(record) };
+}
+
+/**
+ * Returns a record updated with new values, with its previous values
+ * appended to its history.
+ * @param record - The record before the change.
+ * @param values - The new values.
+ * @returns The updated record.
+ */
+
+export function applyRevision(record: FormData, values: RecordValues): FormData {
+  return {
+    ...record,
+    ...values,
+    history: [...(record.history || []), toRevision(record)],
+    timeStamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Lists the fields whose values differ between two revisions.
+ * @param from - The older values.
+ * @param to - The newer values.
+ * @returns The keys of the changed fields.
+ */
+
+export function diffRevisions(
+  from: RecordValues,
+  to: RecordValues
+): (keyof RecordValues)[] {
+  return formSchema.map((field) => field.name).filter(
+    (key) => String(from[key] ?? "") !== String(to[key] ?? "")
+  );
+}
@@ -0,0 +1,193 @@
+import type { RuleSpec, RuleSpecs } from "./Interfaces.ts";
+import type { ValidationRule } from "./validation.ts";
+import { calculateAge } from "./utils.ts";
+import { t } from "./i18n.ts";
+
+/**
+ * The kinds of declarative rules, in the order the settings screen offers them.
+ */
+export const RULE_TYPES: RuleSpec["type"][] = [
+  "required",
+  "minLength",
+  "maxLength",
+  "pattern",
+  "range",
+  "date",
+  "oneOf",
+];
+
+/**
+ * Returns the message shown when a rule has no message of its own.
+ * @param spec - The rule.
+ * @returns The message key, and the number its plural form depends on, if any.
+ */
+
+function getDefaultMessage(spec: RuleSpec): [key: string, count?: number] {
+  switch (spec.type) {
+    case "required":
+      return ["rules.required"];
+    case "minLength":
+      return ["rules.minLength", spec.value];
+    case "maxLength":
+      return ["rules.maxLength", spec.value];
+    case "pattern":
+      return ["rules.pattern"];
+    case "range":
+      if (spec.min !== undefined && spec.max !== undefined) {
+        return ["rules.rangeBetween"];
+      }
+      return spec.min !== undefined
+        ? ["rules.rangeMin"]
+        : spec.max !== undefined
+          ? ["rules.rangeMax"]
+          : ["rules.number"];
+    case "date":
+      if (spec.minAge !== undefined && spec.maxAge !== undefined) {
+        return ["rules.ageBetween", spec.maxAge];
+      }
+      return spec.minAge !== undefined
+        ? ["rules.ageMin", spec.minAge]
+        : spec.maxAge !== undefined
+          ? ["rules.ageMax", spec.maxAge]
+          : ["rules.invalidDate"];
+    case "oneOf":
+      return ["rules.oneOf"];
+  }
+}
+
+/**
+ * Checks whether a number is within optional bounds.
+ * @param value - The number to check.
+ * @param min - The smallest allowed value, if any.
+ * @param max - The largest allowed value, if any.
+ * @returns `true` if the number is within the bounds.
+ */
+
+function isWithin(value: number, min?: number, max?: number): boolean {
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+/**
+ * Describes what is wrong with a rule's settings.
+ * @param spec - The rule to check.
+ * @returns A description of the problem, or `null` if the rule is usable.
+ */
+
+export function getRuleSpecError(spec: RuleSpec): string | null {
+  const isCount = (value: unknown) =>
+    typeof value === "number" && Number.isInteger(value) && value >= 0;
+  const isOptionalNumber = (value: unknown) =>
+    value === undefined || (typeof value === "number" && Number.isFinite(value));
+
+  switch (spec.type) {
+    case "required":
+      return null;
+    case "minLength":
+    case "maxLength":
+      return isCount(spec.value) ? null : t("settings.errors.length");
+    case "pattern":
+      // The rule reuses one RegExp, which these flags would make remember
+      // where the last match ended, so equal values could pass and then fail.
+      if (/[gy]/.test(spec.flags ?? "")) {
+        return t("settings.errors.patternFlags");
+      }
+      try {
+        new RegExp(spec.value, spec.flags);
+        return null;
+      } catch (error) {
+        return t("settings.errors.pattern", { error: (error as Error).message });
+      }
+    case "range":
+    case "date": {
+      const [min, max] =
+        spec.type === "range" ? [spec.min, spec.max] : [spec.minAge, spec.maxAge];
+      if (!isOptionalNumber(min) || !isOptionalNumber(max)) {
+        return t("settings.errors.limits");
+      }
+      return min !== undefined && max !== undefined && min > max
+        ? t("settings.errors.limitOrder")
+        : null;
+    }
+    case "oneOf":
+      return Array.isArray(spec.values) && spec.values.length > 0
+        ? null
+        : t("settings.errors.values");
+    default:
+      return t("settings.errors.type", { type: (spec as { type: string }).type });
+  }
+}
+
+/**
+ * Compiles a declarative rule into a validation rule. Its message is
+ * translated each time it is shown, so it follows language changes.
+ * A custom message can be a message key or free text.
+ * @param spec - The rule to compile.
+ * @param getLabel - Returns the field label, available to messages as `{label}`.
+ * @returns The validation rule.
+ * @throws {Error} Throws an error if the rule's settings are invalid.
+ */
+
+export function compileRule(
+  spec: RuleSpec,
+  getLabel: () => string
+): ValidationRule {
+  const specError = getRuleSpecError(spec);
+  if (specError) {
+    throw new Error(specError);
+  }
+  const [defaultKey, count] = getDefaultMessage(spec);
+  const message = () =>
+    t(spec.message ?? defaultKey, { ...spec, label: getLabel(), count });
+
+  switch (spec.type) {
+    case "required":
+      return { logic: (value) => value.trim() !== "", errorMessage: message };
+    case "minLength":
+      return { logic: (value) => value.length >= spec.value, errorMessage: message };
+    case "maxLength":
+      return { logic: (value) => value.length <= spec.value, errorMessage: message };
+    case "pattern": {
+      const pattern = new RegExp(spec.value, spec.flags);
+      return { logic: (value) => pattern.test(value), errorMessage: message };
+    }
+    case "range":
+      return {
+        logic: (value) => {
+          const number = Number(value.trim());
+          return value.trim() !== "" && Number.isFinite(number) && isWithin(number, spec.min, spec.max);
+        },
+        errorMessage: message,
+      };
+    case "date":
+      return {
+        logic: (value) => {
+          const age = calculateAge(value);
+          return age !== null && isWithin(age, spec.minAge, spec.maxAge);
+        },
+        // Without a message of its own, an unreadable date gets a clearer one than the age limits.
+        errorMessage: (value) =>
+          spec.message === undefined && calculateAge(value) === null
+            ? t("rules.invalidDate")
+            : message(),
+      };
+    case "oneOf":
+      return { logic: (value) => spec.values.includes(value), errorMessage: message };
+  }
+}
+
+/**
+ * Compiles the declarative rules of a field, keeping their order.
+ * @param specs - The rules to compile, keyed by rule name.
+ * @param getLabel - Returns the field label.
+ * @returns The validation rules, keyed by rule name.
+ * @throws {Error} Throws an error if any rule's settings are invalid.
+ */
+
+export function compileRules(
+  specs: RuleSpecs,
+  getLabel: () => string
+): { [rule: string]: ValidationRule } {
+  return Object.fromEntries(
+    Object.entries(specs).map(([name, spec]) => [name, compileRule(spec, getLabel)])
+  );
+}
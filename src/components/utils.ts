@@ -0,0 +1,125 @@
+/**
+ * Escapes a value so it can be safely interpolated into an HTML template string.
+ * @param value - The value to escape.
+ * @returns The escaped string.
+ */
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Escapes a value and wraps every case-insensitive occurrence of the query in a `<mark>` element.
+ * @param value - The value to render.
+ * @param query - The text to highlight. An empty query highlights nothing.
+ * @returns The escaped HTML string with highlighted matches.
+ */
+
+export function highlightMatches(value: unknown, query: string): string {
+  const text = String(value ?? "");
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return escapeHtml(text);
+  }
+
+  const haystack = text.toLowerCase();
+  let html = "";
+  let index = 0;
+  let matchIndex = haystack.indexOf(needle);
+  while (matchIndex !== -1) {
+    html += escapeHtml(text.slice(index, matchIndex));
+    html += `<mark>${escapeHtml(text.slice(matchIndex, matchIndex + needle.length))}</mark>`;
+    index = matchIndex + needle.length;
+    matchIndex = haystack.indexOf(needle, index);
+  }
+  return html + escapeHtml(text.slice(index));
+}
+
+/**
+ * Creates a debounced version of a function that only runs once calls have
+ * stopped for the given delay.
+ * @param callback - The function to debounce.
+ * @param delay - The delay in milliseconds.
+ * @returns The debounced function.
+ */
+
+export function debounce<T extends unknown[]>(
+  callback: (...args: T) => void,
+  delay: number
+): (...args: T) => void {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  return (...args: T) => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => callback(...args), delay);
+  };
+}
+
+/**
+ * Offers text content to the user as a file download.
+ * @param content - The file content.
+ * @param fileName - The suggested file name.
+ * @param mimeType - The MIME type of the content.
+ */
+
+export function downloadFile(
+  content: string,
+  fileName: string,
+  mimeType: string
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Parses a date. `YYYY-MM-DD` dates are read as local dates, not UTC
+ * midnight, so they do not shift a day in timezones west of UTC.
+ * @param value - The date, as `YYYY-MM-DD` or any format `Date` parses.
+ * @returns The date, or `null` if the value is not a valid date.
+ */
+
+export function parseDate(value: string): Date | null {
+  const isoMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  const date = isoMatch
+    ? new Date(Number(isoMatch[1]), Number(isoMatch[2]) - 1, Number(isoMatch[3]))
+    : new Date(value);
+  if (
+    isNaN(date.getTime()) ||
+    (isoMatch && date.getDate() !== Number(isoMatch[3]))
+  ) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Calculates a person's age in whole years, counting a year only once the
+ * birthday has been reached. Someone born on 29 February turns a year older
+ * on 1 March in non-leap years.
+ * @param dob - The date of birth, as `YYYY-MM-DD` or any format `Date` parses.
+ * @param today - The date to calculate the age at.
+ * @returns The age, or `null` if the date of birth is not a valid date.
+ */
+
+export function calculateAge(dob: string, today = new Date()): number | null {
+  const birthDate = parseDate(dob);
+  if (!birthDate) {
+    return null;
+  }
+
+  const hadBirthday =
+    today.getMonth() > birthDate.getMonth() ||
+    (today.getMonth() === birthDate.getMonth() &&
+      today.getDate() >= birthDate.getDate());
+  return today.getFullYear() - birthDate.getFullYear() - (hadBirthday ? 0 : 1);
+}
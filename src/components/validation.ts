@@ -1,3 +1,30 @@
+import type { RuleOverrides } from "./Interfaces.ts"
+import { getFieldLabel, getFieldSchema, type FieldSchema } from "./formSchema.ts"
+import { compileRules } from "./ruleSpecs.ts"
+
+/**
+ * Information about the surrounding form passed to every rule.
+ */
+export interface ValidationContext {
+
+    /**
+     * The ID of the record being edited, or `null` when adding a record.
+     */
+    editId: string | null
+
+    /**
+     * The current values of every field in the form, keyed by field name,
+     * so rules can compare the value being validated with other fields.
+     */
+    values: Partial<Record<string, string>>
+
+    /**
+     * Aborted when the result of a check is no longer needed,
+     * for example because the value changed while it was running.
+     */
+    signal?: AbortSignal
+}
+
 /**
  * Represents a validation rule for a field.
  */
@@ -6,146 +33,166 @@ export interface ValidationRule {
     /**
      * The logic function to validate the field value.
      * @param value - The value to validate.
-     * @returns A boolean indicating whether the validation passed.
+     * @param context - The validation context.
+     * @returns A boolean, or a Promise of one for async rules, indicating whether the validation passed.
+     */
+    logic: (value: string, context: ValidationContext) => boolean | Promise<boolean>
+    /**
+     * The error message to display if the validation fails, or a function
+     * building it from the value and context.
      */
-    logic: (value: string) => boolean
+    errorMessage: string | ((value: string, context: ValidationContext) => string)
     /**
-     * The error message to display if the validation fails.
+     * Whether `logic` returns a Promise. Async rules are skipped by
+     * `validateField` and only checked by `validateFieldAsync`.
      */
-    errorMessage: string
+    async?: boolean
+}
+/**
+ * Declarative rules that replace the defaults of the form schema, keyed by field name.
+ */
+
+let ruleOverrides: RuleOverrides = {}
+
+/**
+ * The compiled rules of each field, kept until the overrides change.
+ */
+
+const compiledRules = new Map<string, ValidationRule[]>()
+
+/**
+ * Returns the declarative rule overrides in effect.
+ * 
+ * @returns The overrides, keyed by field name.
+ */
+
+export function getRuleOverrides(): RuleOverrides {
+    return ruleOverrides
+}
+
+/**
+ * Replaces the declarative rules of some fields. Fields without an
+ * override use the rules declared in the form schema.
+ * 
+ * @param overrides - The overrides, keyed by field name.
+ */
+
+export function setRuleOverrides(overrides: RuleOverrides): void {
+    ruleOverrides = overrides
+    compiledRules.clear()
 }
+
 /**
- * Represents a collection of validation rules for fields.
+ * Compiles the declarative rules of a field, falling back to the schema
+ * defaults if its override cannot be compiled.
+ * 
+ * @param field - The field schema.
+ * @returns The compiled rules, in order.
  */
 
-export interface FieldRules {
-    [key: string]: {
-        [rule: string]: ValidationRule
+function compileDeclarativeRules(field: FieldSchema): ValidationRule[] {
+    const override = ruleOverrides[field.name]
+    if (override) {
+        try {
+            return Object.values(compileRules(override, () => getFieldLabel(field.name)))
+        } catch (error) {
+            console.error(`Ignoring the invalid rule override of "${field.name}"`, error)
+        }
     }
+    return Object.values(compileRules(field.ruleSpecs, () => getFieldLabel(field.name)))
 }
 
 /**
- * A collection of predefined validation rules for various fields.
+ * Returns every validation rule of a field: its declarative rules,
+ * overridden or from the schema, followed by the rules that need code.
+ * 
+ * @param fieldName - The name of the field.
+ * @returns The rules, in the order they are checked. Unknown fields have none.
+ */
+
+export function getFieldRules(fieldName: string): ValidationRule[] {
+    const field = getFieldSchema(fieldName)
+    if (!field) return []
+
+    let rules = compiledRules.get(field.name)
+    if (!rules) {
+        rules = [...compileDeclarativeRules(field), ...Object.values(field.rules)]
+        compiledRules.set(field.name, rules)
+    }
+    return rules
+}
+
+/**
+ * The context used when no record is being edited and no other field values are known.
+ */
+
+const defaultContext: ValidationContext = { editId: null, values: {} }
+
+/**
+ * Resolves the error message of a failed rule.
+ * 
+ * @param rule - The rule that failed.
+ * @param value - The value that failed it.
+ * @param context - The validation context.
+ * @returns The error message.
  */
 
-export const validationRules: FieldRules = {
-    name: {
-        required: {
-            logic: (value) => value.trim() !== "",
-            errorMessage: "Name is required",
-        },
-        minLength: {
-            logic: (value) => value.length >= 3,
-            errorMessage: "Name must be 3 characters or more",
-        },
-        maxLength: {
-            logic: (value) => value.length <= 50,
-            errorMessage: "Name must be 50 characters or less",
-        },
-    },
-    email: {
-        required: {
-            logic: (value) => value.trim() !== "",
-            errorMessage: "Email is required",
-        },
-        format: {
-            logic: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
-            errorMessage: "Invalid email format",
-        },
-    },
-    phone: {
-        required: {
-            logic: (value) => value.trim() !== "",
-            errorMessage: "Phone number is required",
-        },
-        format: {
-            logic: (value) => /^\d{10}$/.test(value),
-            errorMessage: "Phone number must be exactly 10 digits",
-        },
-    },
-    dob: {
-        required: {
-            logic: (value) => value.trim() !== "",
-            errorMessage: "Date of birth is required",
-        },
-        validDate: {
-            logic: (value) => {
-                const date = new Date(value)
-                return !isNaN(date.getTime())
-            },
-            errorMessage: "Invalid date format",
-        },
-        ageLimit: {
-            logic: (value) => {
-                const dob = new Date(value)
-                const today = new Date()
-                const age = today.getFullYear() - dob.getFullYear()
-                return age >= 10 && age <= 100
-            },
-            errorMessage: "You must be between 10 and 100 years old",
-        },
-    },
-    age: {
-        required: {
-            logic: (value) => value.trim() !== "",
-            errorMessage: "Age is required",
-        },
-        validRange: {
-            logic: (value) => {
-                const age = Number.parseInt(value, 10)
-                return age >= 10 && age <= 100
-            },
-            errorMessage: "Age must be between 10 and 100",
-        },
-    },
-    country: {
-        required: {
-            logic: (value) => value.trim() !== "",
-            errorMessage: "Country is required",
-        },
-    },
-    state: {
-        required: {
-            logic: (value) => value.trim() !== "",
-            errorMessage: "State is required",
-        },
-    },
-    city: {
-        required: {
-            logic: (value) => value.trim() !== "",
-            errorMessage: "City is required",
-        },
-    },
-    zip: {
-        required: {
-            logic: (value) => value.trim() !== "",
-            errorMessage: "ZIP code is required",
-        },
-        format: {
-            logic: (value) => /^\d{5}(-\d{4})?$/.test(value),
-            errorMessage: "Invalid ZIP code format (e.g., 12345 or 12345-6789)",
-        },
-    },
+function getErrorMessage(rule: ValidationRule, value: string, context: ValidationContext): string {
+    return typeof rule.errorMessage === "function"
+        ? rule.errorMessage(value, context)
+        : rule.errorMessage
 }
 
 /**
- * Validates a field value against its associated validation rules.
+ * Validates a field value against its associated synchronous validation rules.
+ * Async rules are skipped; use `validateFieldAsync` to check them as well.
  * 
  * @param fieldName - The name of the field to validate.
  * @param value - The value of the field to validate.
+ * @param context - The validation context.
  * @returns An error message if validation fails, or `null` if validation passes.
  */
 
-export function validateField(fieldName: string, value: string): string | null {
-    const rules = validationRules[fieldName]
-    if (!rules) return null
+export function validateField(fieldName: string, value: string, context = defaultContext): string | null {
+    for (const rule of getFieldRules(fieldName)) {
+        if (!rule.async && !rule.logic(value, context)) {
+            return getErrorMessage(rule, value, context)
+        }
+    }
+
+    return null
+}
 
-    for (const [ruleName, rule] of Object.entries(rules)) {
-        if (!rule.logic(value)) {
-            return rule.errorMessage
+/**
+ * Validates a field value against all of its validation rules, waiting for async rules.
+ * Rules run in order and stop at the first failure. Once `context.signal` is aborted
+ * no further rules run and the result should be ignored.
+ * 
+ * @param fieldName - The name of the field to validate.
+ * @param value - The value of the field to validate.
+ * @param context - The validation context.
+ * @returns A Promise of an error message if validation fails, or `null` if validation passes.
+ */
+
+export async function validateFieldAsync(fieldName: string, value: string, context = defaultContext): Promise<string | null> {
+    for (const rule of getFieldRules(fieldName)) {
+        if (context.signal?.aborted) return null
+        if (!(await rule.logic(value, context))) {
+            return getErrorMessage(rule, value, context)
         }
     }
 
     return null
 }
 
+/**
+ * Checks whether a field has any async validation rules.
+ * 
+ * @param fieldName - The name of the field.
+ * @returns `true` if validating the field involves an async check.
+ */
+
+export function hasAsyncRules(fieldName: string): boolean {
+    return getFieldRules(fieldName).some((rule) => rule.async)
+}
+
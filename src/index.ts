@@ -1,12 +1,21 @@
 
 import { AppComponent } from "./components/AppComponent.ts"
+import { AppStateManager } from "./components/StateManager.ts"
+import { createStorageAdapter } from "./components/StorageAdapters.ts"
 
-document.addEventListener("DOMContentLoaded", () => {
+document.addEventListener("DOMContentLoaded", async () => {
   const appElement = document.getElementById("app")
   if (appElement) {
+    // The storage backend can be chosen with ?storage=localStorage|indexedDB|memory
+    const backend = new URLSearchParams(window.location.search).get("storage")
+    try {
+      await AppStateManager.initialize(createStorageAdapter(backend))
+    } catch (error) {
+      console.error(`Storage backend "${backend}" failed, using localStorage`, error)
+      await AppStateManager.initialize(createStorageAdapter())
+    }
     new AppComponent("app")
   } else {
     console.error('Element with id "app" not found')
   }
 })
-